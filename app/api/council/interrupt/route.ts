@@ -1,10 +1,11 @@
 /**
  * API Route: /api/council/interrupt
- * Handles real-time interruptions during debate
+ * Queues real-time interruptions into a running debate session
  * SECURITY: Validated and rate-limited
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { debateSessions } from '@/lib/agents/sessions';
 import {
   InterruptRequestSchema,
   checkRateLimit,
@@ -44,21 +45,31 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = InterruptRequestSchema.parse(body);
 
-    // TODO: In a production system with session management, this would:
-    // 1. Find the active debate session (using session ID or user ID)
-    // 2. Pause the current streaming response
-    // 3. Inject the interruption into the conversation history
-    // 4. Resume the debate with the new context
-    //
-    // For now, we acknowledge the interruption
-    // The frontend handles showing it to the user
-    // The next API call will include this in conversationHistory
+    // Queue the interruption on the live debate; the next advisor turn picks it up
+    const session = debateSessions.get(validatedData.sessionId);
+    if (!session || session.isFinished) {
+      return NextResponse.json(
+        { error: 'Debate session not found or already finished' },
+        { status: 404 }
+      );
+    }
+
+    // Nothing reads the queue once the final answer is being written
+    if (session.isWrappingUp) {
+      return NextResponse.json(
+        { error: 'The council is already writing its final answer - ask a follow-up question instead' },
+        { status: 409 }
+      );
+    }
+
+    const interruption = session.queueInterruption(validatedData.interruption);
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Interruption received',
-        timestamp: Date.now(),
+        message: 'Interruption queued',
+        interruptionId: interruption.id,
+        timestamp: interruption.timestamp,
       },
       { status: 200 }
     );
@@ -0,0 +1,93 @@
+/**
+ * API Route: /api/council/pause
+ * Pauses a running debate after the advisor currently speaking
+ * The stream ends with a `paused` event carrying the checkpoint to resume from
+ * SECURITY: Validated and rate-limited
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { debateSessions } from '@/lib/agents/sessions';
+import {
+  SessionRequestSchema,
+  checkRateLimit,
+  getRateLimitIdentifier,
+  getSafeErrorMessage,
+  logSecurityEvent,
+} from '@/lib/utils/security';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Rate limiting - 5 pause requests per minute
+    const identifier = getRateLimitIdentifier(request);
+    const rateLimit = checkRateLimit(identifier, 5, 60 * 1000);
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many pause requests. Please slow down.',
+          retryAfter: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': '5',
+            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+            'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+          },
+        }
+      );
+    }
+
+    // SECURITY: Validate request body
+    const body = await request.json();
+    const validatedData = SessionRequestSchema.parse(body);
+
+    const session = debateSessions.get(validatedData.sessionId);
+    if (!session || session.isFinished) {
+      return NextResponse.json(
+        { error: 'Debate session not found or already finished' },
+        { status: 404 }
+      );
+    }
+
+    if (!session.requestPause()) {
+      return NextResponse.json(
+        { error: 'The council is already writing its final answer, so the debate can no longer be paused' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Debate will pause once the advisors currently responding finish',
+        timestamp: Date.now(),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // Log validation failures
+    if (error instanceof z.ZodError) {
+      logSecurityEvent({
+        type: 'invalid_input',
+        message: 'Invalid pause request',
+        metadata: { errors: error.issues },
+      });
+
+      return NextResponse.json(
+        { error: 'Invalid request format' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Pause error:', error);
+    return NextResponse.json(
+      { error: getSafeErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
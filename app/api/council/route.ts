@@ -5,7 +5,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { CouncilOrchestrator } from '@/lib/agents/council';
+import { debateSessions } from '@/lib/agents/sessions';
 import type { StreamEvent } from '@/lib/agents/types';
+import { createProvider, getConfiguredProviderName } from '@/lib/providers';
+import { getCouncilModels } from '@/lib/models/registry';
 import {
   CouncilDebateRequestSchema,
   checkRateLimit,
@@ -47,65 +50,104 @@ export async function POST(request: NextRequest) {
     const validatedData = CouncilDebateRequestSchema.parse(body);
 
     // Support both environment variables AND user-provided keys
-    const apiKey = validatedData.anthropicKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    // LLM_PROVIDER=mock runs the council offline with canned responses (no key needed)
+    // Mixed-model councils may need more than one backend
+    const providerName = getConfiguredProviderName(validatedData.model);
+    const providerNames = new Set(
+      getCouncilModels(validatedData.model, validatedData.advisors, validatedData.modelAssignments)
+        .concat(validatedData.fallbackModel ? [validatedData.fallbackModel] : [])
+        .map((model) => getConfiguredProviderName(model))
+    ).add(providerName);
+    const apiKey = validatedData.anthropicKey || process.env.ANTHROPIC_API_KEY || '';
+    if (providerNames.has('openai-compatible') && !process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      return NextResponse.json(
+        { error: 'OPENAI_COMPATIBLE_BASE_URL not configured. Set it on the server to use a local model.' },
+        { status: 400 }
+      );
+    }
+    if (!apiKey && providerNames.has('anthropic')) {
       return NextResponse.json(
         { error: 'ANTHROPIC_API_KEY not configured. Please add your API key in Settings.' },
         { status: 400 }
       );
     }
 
-    // Create a TransformStream for Server-Sent Events
-    const encoder = new TextEncoder();
-    const stream = new TransformStream();
-    const writer = stream.writable.getWriter();
+    // Session ID lets /api/council/interrupt, /pause and /stream reach this debate while it runs
+    // Events go through the session so a dropped client can reconnect and replay them
+    const session = debateSessions.create();
+    const publish = (event: StreamEvent) => session.publish(event);
 
     // Start the debate in the background
     (async () => {
       try {
+        publish({
+          type: 'session',
+          data: { sessionId: session.id },
+          timestamp: Date.now(),
+        });
+
+        const providers = Object.fromEntries(
+          Array.from(providerNames).map((name) => [name, createProvider(name, apiKey)])
+        );
+
         const orchestrator = new CouncilOrchestrator(apiKey, {
           model: validatedData.model,
+          modelAssignments: validatedData.modelAssignments,
+          fallbackModel: validatedData.fallbackModel,
+          maxCostUsd: validatedData.maxCostUsd,
           mode: validatedData.mode,
+          agreementThreshold: validatedData.agreementThreshold,
+          maxRounds: validatedData.maxRounds,
+          parallelFirstRound: validatedData.parallelFirstRound,
+          synthesisStyle: validatedData.synthesisStyle,
+          consensusQuorum: validatedData.consensusQuorum,
+          countPartialAgreement: validatedData.countPartialAgreement,
           selectedAdvisors: validatedData.advisors,
+          customPersonas: validatedData.customPersonas,
+          moderatorOverride: validatedData.moderatorOverride,
           enableResearch: validatedData.enableResearch,
           tavilyApiKey: validatedData.tavilyKey,
+          provider: providers[providerName],
+          providers,
+          localModelName: validatedData.localModelName,
         });
 
         await orchestrator.runCouncilDebate(
           validatedData.question,
           validatedData.conversationHistory || '',
-          async (event: StreamEvent) => {
-            const data = `data: ${JSON.stringify(event)}\n\n`;
-            await writer.write(encoder.encode(data));
-          },
+          publish,
           {
             continueDebate: validatedData.continueDebate || false,
             regenerate: validatedData.regenerate || false,
+            previousDebate: validatedData.previousDebate,
+            resumeFrom: validatedData.resumeFrom,
+            session,
+            // Cancelled on explicit stop, or when no client reconnects after a disconnect
+            signal: session.signal,
           }
         );
-
-        // Stream closes naturally after debate completes
       } catch (error) {
         console.error('Debate error:', error);
 
         // SECURITY: Use safe error message that doesn't expose internals
-        const errorEvent: StreamEvent = {
+        publish({
           type: 'error',
           content: getSafeErrorMessage(error),
           timestamp: Date.now(),
-        };
-        await writer.write(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
+        });
       } finally {
-        await writer.close();
+        // Streams end after the `done` event; the buffer stays for late reconnects
+        session.finish();
       }
     })();
 
-    // Return the readable stream
-    return new Response(stream.readable, {
+    // Return the session's live event stream
+    return new Response(session.createStream(0, request.signal), {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
+        'X-Debate-Session-Id': session.id,
       },
     });
   } catch (error) {
@@ -0,0 +1,142 @@
+/**
+ * API Route: /api/council/stream
+ * GET reconnects to a running debate: replays events after Last-Event-ID, then continues live
+ * DELETE cancels the debate (the user pressed stop rather than losing the connection)
+ * SECURITY: Validated and rate-limited; the session ID is the only credential
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { debateSessions } from '@/lib/agents/sessions';
+import {
+  SessionRequestSchema,
+  checkRateLimit,
+  getRateLimitIdentifier,
+  getSafeErrorMessage,
+  logSecurityEvent,
+} from '@/lib/utils/security';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Rate limit shared by reconnects and cancels - 20 per minute
+ */
+function rateLimited(request: NextRequest): NextResponse | null {
+  const identifier = getRateLimitIdentifier(request);
+  const rateLimit = checkRateLimit(identifier, 20, 60 * 1000);
+
+  if (rateLimit.allowed) return null;
+
+  return NextResponse.json(
+    {
+      error: 'Too many reconnection attempts. Please slow down.',
+      retryAfter: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
+    },
+    {
+      status: 429,
+      headers: {
+        'X-RateLimit-Limit': '20',
+        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+        'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+        'Retry-After': Math.ceil((rateLimit.resetAt - Date.now()) / 1000).toString(),
+      },
+    }
+  );
+}
+
+/**
+ * Log and reject invalid input, or return a safe 500
+ */
+function handleError(error: unknown, message: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    logSecurityEvent({
+      type: 'invalid_input',
+      message,
+      metadata: { errors: error.issues },
+    });
+
+    return NextResponse.json(
+      { error: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  console.error('Stream error:', error);
+  return NextResponse.json(
+    { error: getSafeErrorMessage(error) },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = rateLimited(request);
+    if (limited) return limited;
+
+    // SECURITY: Validate session ID and Last-Event-ID
+    const validatedData = SessionRequestSchema.parse({
+      sessionId: request.nextUrl.searchParams.get('sessionId'),
+      lastEventId: request.headers.get('Last-Event-ID') ?? undefined,
+    });
+    const lastEventId = validatedData.lastEventId ?? 0;
+
+    const session = debateSessions.get(validatedData.sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Debate session not found or expired' },
+        { status: 404 }
+      );
+    }
+
+    if (!session.canReplayFrom(lastEventId)) {
+      return NextResponse.json(
+        { error: 'Missed events are no longer available' },
+        { status: 410 }
+      );
+    }
+
+    return new Response(session.createStream(lastEventId, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Debate-Session-Id': session.id,
+      },
+    });
+  } catch (error) {
+    return handleError(error, 'Invalid stream reconnect request');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const limited = rateLimited(request);
+    if (limited) return limited;
+
+    const validatedData = SessionRequestSchema.parse({
+      sessionId: request.nextUrl.searchParams.get('sessionId'),
+    });
+
+    const session = debateSessions.get(validatedData.sessionId);
+    if (!session || session.isFinished) {
+      return NextResponse.json(
+        { error: 'Debate session not found or already finished' },
+        { status: 404 }
+      );
+    }
+
+    session.cancel();
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Debate cancelled',
+        timestamp: Date.now(),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return handleError(error, 'Invalid stream cancel request');
+  }
+}
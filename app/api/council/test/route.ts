@@ -0,0 +1,132 @@
+/**
+ * API Route: /api/council/test
+ * Persona editor test-drive: streams one draft persona's answer to a sample question
+ * Runs a single advisor turn (no session, consensus or final answer)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CouncilOrchestrator } from '@/lib/agents/council';
+import type { StreamEvent } from '@/lib/agents/types';
+import { createProvider, getConfiguredProviderName } from '@/lib/providers';
+import {
+  PersonaTestRequestSchema,
+  checkRateLimit,
+  getRateLimitIdentifier,
+  getSafeErrorMessage,
+  logSecurityEvent,
+} from '@/lib/utils/security';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The draft takes a seat under this ID (never a built-in, so any persona can be test-driven)
+const TEST_PERSONA_ID = 'persona-test';
+
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Rate limiting - 10 requests per minute per IP
+    const identifier = getRateLimitIdentifier(request);
+    const rateLimit = checkRateLimit(identifier, 10, 60 * 1000);
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many requests. Please try again later.',
+          retryAfter: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': '10',
+            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+            'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+            'Retry-After': Math.ceil((rateLimit.resetAt - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    // SECURITY: Parse and validate request body with Zod
+    const body = await request.json();
+    const validatedData = PersonaTestRequestSchema.parse(body);
+
+    const providerName = getConfiguredProviderName(validatedData.model);
+    const apiKey = validatedData.anthropicKey || process.env.ANTHROPIC_API_KEY || '';
+    if (providerName === 'openai-compatible' && !process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      return NextResponse.json(
+        { error: 'OPENAI_COMPATIBLE_BASE_URL not configured. Set it on the server to use a local model.' },
+        { status: 400 }
+      );
+    }
+    if (!apiKey && providerName === 'anthropic') {
+      return NextResponse.json(
+        { error: 'ANTHROPIC_API_KEY not configured. Please add your API key in Settings.' },
+        { status: 400 }
+      );
+    }
+
+    const orchestrator = new CouncilOrchestrator(apiKey, {
+      model: validatedData.model,
+      selectedAdvisors: [TEST_PERSONA_ID],
+      customPersonas: [{ id: TEST_PERSONA_ID, ...validatedData.persona }],
+      provider: createProvider(providerName, apiKey),
+      localModelName: validatedData.localModelName,
+    });
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        let closed = false;
+        const send = (event: StreamEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          } catch {
+            closed = true; // The client went away
+          }
+        };
+
+        try {
+          await orchestrator.testAdvisor(TEST_PERSONA_ID, validatedData.question, send, request.signal);
+        } catch (error) {
+          console.error('Persona test error:', error);
+          send({ type: 'error', content: getSafeErrorMessage(error), timestamp: Date.now() });
+        } finally {
+          send({ type: 'done', timestamp: Date.now() });
+          if (!closed) controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    // SECURITY: Log validation failures for monitoring
+    if (error instanceof z.ZodError) {
+      logSecurityEvent({
+        type: 'invalid_input',
+        message: 'Invalid persona test request',
+        metadata: { errors: error.issues },
+      });
+
+      return NextResponse.json(
+        {
+          error: error.issues[0]?.message || 'Invalid request data',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: getSafeErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,7 @@ import {
   getSafeErrorMessage,
   logSecurityEvent,
 } from '@/lib/utils/security';
+import { getCheapestModel } from '@/lib/models/registry';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -60,7 +61,7 @@ export async function POST(request: NextRequest) {
 
       // Make a minimal test call (uses cheapest model)
       await client.messages.create({
-        model: 'claude-3-5-haiku-20241022',
+        model: getCheapestModel('anthropic')?.apiId || 'claude-3-5-haiku-20241022',
         max_tokens: 10,
         messages: [{ role: 'user', content: 'test' }],
       });
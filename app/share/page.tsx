@@ -3,10 +3,14 @@
 import { useSearchParams } from 'next/navigation';
 import { useEffect, useState, Suspense } from 'react';
 import { decodeConversation } from '@/lib/utils/share-utils';
-import { PERSONAS } from '@/lib/agents/personas';
+import { lookupPersona } from '@/lib/agents/persona-registry';
+import { loadCustomPersonas } from '@/lib/utils/custom-personas';
+import { formatActionPlanMarkdown } from '@/lib/utils/action-plan';
+import { getModelDisplayName } from '@/lib/models/registry';
 import { formatTimestamp, cn } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import ActionPlan from '@/components/ActionPlan';
 import {
   Copy, CheckCheck, Download, ExternalLink, AlertCircle,
   MessageSquare, Clock, Cpu, Users, Brain
@@ -17,6 +21,7 @@ function SharePageContent() {
   const [conversation, setConversation] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [customPersonas] = useState(() => loadCustomPersonas()); // Custom advisors known to this browser
 
   useEffect(() => {
     const data = searchParams.get('data');
@@ -85,6 +90,9 @@ function SharePageContent() {
         markdown += `### Moderator\n\n${msg.content}\n\n`;
       } else if (msg.type === 'final') {
         markdown += `## Final Answer\n\n${msg.content}\n\n`;
+        if (msg.structuredAnswer) {
+          markdown += formatActionPlanMarkdown(msg.structuredAnswer, msg.completedSteps);
+        }
       }
     });
 
@@ -93,19 +101,19 @@ function SharePageContent() {
 
   const getAgentColor = (agent?: string) => {
     if (!agent) return '#B1ADA1';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.color || '#B1ADA1';
   };
 
   const getAgentAvatar = (agent?: string) => {
     if (!agent) return '🤖';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.avatar || '🤖';
   };
 
   const getAgentName = (agent?: string) => {
     if (!agent) return 'System';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.name || agent;
   };
 
@@ -187,7 +195,7 @@ function SharePageContent() {
             </div>
             <div className="flex items-center gap-2">
               <Cpu className="w-4 h-4" />
-              {model.includes('opus') ? 'Opus 4.5' : model.includes('sonnet') ? 'Sonnet 4.5' : 'Haiku 4'}
+              {getModelDisplayName(model)}
             </div>
             <div className="flex items-center gap-2">
               <Brain className="w-4 h-4" />
@@ -323,6 +331,10 @@ function SharePageContent() {
                     </ReactMarkdown>
                   </div>
 
+                  {message.structuredAnswer && (
+                    <ActionPlan answer={message.structuredAnswer} completedSteps={message.completedSteps} />
+                  )}
+
                   <button
                     onClick={() => copyToClipboard(message.content, message.id)}
                     className="btn-secondary px-3 py-1.5 text-xs flex items-center gap-1.5"
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, CheckSquare, HelpCircle, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { StructuredFinalAnswer } from '@/lib/agents/types';
+
+interface ActionPlanProps {
+  answer: StructuredFinalAnswer;
+  completedSteps?: number[];
+  onToggleStep?: (index: number) => void; // Omit for a read-only checklist (e.g. shared links)
+}
+
+const CONFIDENCE_CLASSES: Record<StructuredFinalAnswer['confidence'], string> = {
+  high: 'bg-green-500/10 text-green-700 border-green-500/30',
+  medium: 'bg-yellow-500/10 text-yellow-700 border-yellow-500/30',
+  low: 'bg-red-500/10 text-red-700 border-red-500/30',
+};
+
+export default function ActionPlan({ answer, completedSteps = [], onToggleStep }: ActionPlanProps) {
+  const doneCount = answer.actionSteps.filter((_, i) => completedSteps.includes(i)).length;
+
+  return (
+    <div className="rounded-lg border border-muted bg-surface/50 p-4 mb-4 space-y-4 text-sm">
+      {/* Recommendation */}
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="text-xs font-semibold uppercase tracking-wide text-muted">Recommendation</span>
+          <span className={cn("px-2 py-0.5 text-[10px] rounded-full border capitalize", CONFIDENCE_CLASSES[answer.confidence])}>
+            {answer.confidence} confidence
+          </span>
+        </div>
+        <p className="text-foreground font-medium">{answer.recommendation}</p>
+      </div>
+
+      {/* Action Steps */}
+      {answer.actionSteps.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2 text-xs">
+            <span className="font-semibold uppercase tracking-wide text-muted">Action Steps</span>
+            <span className="text-muted">{doneCount}/{answer.actionSteps.length} done</span>
+          </div>
+          <ol className="space-y-1.5">
+            {answer.actionSteps.map((step, i) => {
+              const done = completedSteps.includes(i);
+              return (
+                <li key={i}>
+                  <button
+                    onClick={() => onToggleStep?.(i)}
+                    disabled={!onToggleStep}
+                    className={cn(
+                      "w-full flex items-start gap-2 text-left rounded-md px-2 py-1.5 transition-colors",
+                      onToggleStep && "hover:bg-muted/20"
+                    )}
+                    aria-pressed={done}
+                  >
+                    {done ? (
+                      <CheckSquare className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                    ) : (
+                      <Square className="w-4 h-4 mt-0.5 text-muted flex-shrink-0" />
+                    )}
+                    <span className="flex-1 min-w-0">
+                      <span className={cn("text-foreground", done && "line-through text-muted")}>
+                        {i + 1}. {step.step}
+                      </span>
+                      {(step.owner || step.timeframe) && (
+                        <span className="block text-xs text-muted mt-0.5">
+                          {[step.owner, step.timeframe].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
+      {/* Risks */}
+      {answer.risks.length > 0 && (
+        <div>
+          <span className="block mb-2 text-xs font-semibold uppercase tracking-wide text-muted">Risks</span>
+          <ul className="space-y-1.5">
+            {answer.risks.map((risk, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-500 flex-shrink-0" />
+                <span className="text-foreground">
+                  {risk.risk}
+                  {risk.mitigation && <span className="block text-xs text-muted mt-0.5">Mitigation: {risk.mitigation}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Open Questions */}
+      {answer.openQuestions.length > 0 && (
+        <div>
+          <span className="block mb-2 text-xs font-semibold uppercase tracking-wide text-muted">Open Questions</span>
+          <ul className="space-y-1.5">
+            {answer.openQuestions.map((question, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <HelpCircle className="w-4 h-4 mt-0.5 text-muted flex-shrink-0" />
+                <span className="text-foreground">{question}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
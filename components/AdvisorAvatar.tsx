@@ -2,7 +2,8 @@
 
 import React, { useState } from 'react';
 import Image from 'next/image';
-import { PERSONAS } from '@/lib/agents/personas';
+import { lookupPersona } from '@/lib/agents/persona-registry';
+import { useDebateStore } from '@/lib/stores/debate-store';
 import { cn } from '@/lib/utils';
 
 interface AdvisorAvatarProps {
@@ -28,7 +29,8 @@ export default function AdvisorAvatar({
   isStreaming = false,
 }: AdvisorAvatarProps) {
   const [imageError, setImageError] = useState(false);
-  const persona = PERSONAS[agent as keyof typeof PERSONAS];
+  const customPersonas = useDebateStore((state) => state.customPersonas);
+  const persona = lookupPersona(agent, customPersonas);
 
   if (!persona) {
     return (
@@ -25,9 +25,12 @@ import {
   Award,
   Target,
   Activity,
+  DollarSign,
   X,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatCost } from '@/lib/utils/cost-calculator';
+import { getModelDisplayName } from '@/lib/models/registry';
 
 interface AnalyticsDashboardProps {
   isOpen: boolean;
@@ -131,7 +134,7 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
               ) : (
                 <>
                   {/* Key Metrics */}
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
                     <StatCard
                       icon={Activity}
                       label="Total Debates"
@@ -162,6 +165,13 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
                       subtext={`${summary.researchUsageCount} debates`}
                       color="bg-purple-500"
                     />
+                    <StatCard
+                      icon={DollarSign}
+                      label="Actual Spend"
+                      value={formatCost(summary.totalActualCost)}
+                      subtext={`${formatCost(summary.averageActualCost)} per debate`}
+                      color="bg-orange-500"
+                    />
                   </div>
 
                   {/* Model & Mode Usage */}
@@ -175,7 +185,7 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
                       <div className="space-y-3">
                         {Object.entries(summary.modelUsage).map(([model, count]) => {
                           const percentage = (count / summary.totalDebates) * 100;
-                          const modelName = model.includes('opus') ? 'Opus 4.5' : model.includes('sonnet') ? 'Sonnet 4.5' : 'Haiku 4';
+                          const modelName = getModelDisplayName(model);
                           return (
                             <div key={model}>
                               <div className="flex items-center justify-between text-xs mb-1">
@@ -267,7 +277,7 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
                   </div>
 
                   {/* Quality Metrics */}
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
                     <div className="card p-4">
                       <div className="flex items-center gap-2 mb-2">
                         <Target className="w-4 h-4 text-muted" />
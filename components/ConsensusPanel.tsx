@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, GitBranch, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { lookupPersona } from '@/lib/agents/persona-registry';
+import { useDebateStore } from '@/lib/stores/debate-store';
+import type { AdvisorStance, ConsensusAnalysis } from '@/lib/agents/types';
+import AdvisorAvatar from './AdvisorAvatar';
+
+interface ConsensusPanelProps {
+  consensusByRound: Record<number, ConsensusAnalysis>;
+}
+
+const STANCE_CONFIG: Record<AdvisorStance['stance'], { label: string; className: string }> = {
+  agrees: { label: 'Agrees', className: 'bg-green-500/10 text-green-700 border-green-500/30' },
+  partially_agrees: { label: 'Partly', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-500/30' },
+  disagrees: { label: 'Disagrees', className: 'bg-red-500/10 text-red-700 border-red-500/30' },
+};
+
+export default function ConsensusPanel({ consensusByRound }: ConsensusPanelProps) {
+  const customPersonas = useDebateStore((state) => state.customPersonas);
+  const getAgentName = (agent: string) => lookupPersona(agent, customPersonas)?.name || agent;
+  const rounds = Object.keys(consensusByRound).map(Number).sort((a, b) => a - b);
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+
+  if (rounds.length === 0) return null;
+
+  // Follow the latest round unless the user picked an earlier one
+  const round = selectedRound !== null && consensusByRound[selectedRound] ? selectedRound : rounds[rounds.length - 1];
+  const analysis = consensusByRound[round];
+  const agreementPercent = Math.round(analysis.agreementLevel * 100);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-muted space-y-3">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          {analysis.consensusReached ? (
+            <CheckCircle className="w-4 h-4 text-green-500" />
+          ) : (
+            <GitBranch className="w-4 h-4 text-yellow-500" />
+          )}
+          <span className={cn("font-semibold", analysis.consensusReached ? "text-green-700" : "text-yellow-700")}>
+            {analysis.analysisFailed
+              ? 'Consensus analysis unavailable'
+              : analysis.consensusReached ? 'Consensus Reached' : 'Council Is Split'}
+          </span>
+        </div>
+        {rounds.length > 1 && (
+          <div className="flex gap-1">
+            {rounds.map((r) => (
+              <button
+                key={r}
+                onClick={() => setSelectedRound(r)}
+                className={cn(
+                  "px-2 py-0.5 text-[10px] rounded-full border transition-all",
+                  r === round ? "border-primary bg-primary/10 text-primary" : "border-muted text-muted hover:border-primary/50"
+                )}
+              >
+                Round {r}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!analysis.analysisFailed && (
+        <>
+          {/* Agreement Level */}
+          <div>
+            <div className="flex items-center justify-between mb-1 text-xs text-muted">
+              <span>Agreement {agreementPercent}%</span>
+              <span className="capitalize">{analysis.confidence} confidence</span>
+            </div>
+            <div className="h-2 rounded-full bg-muted/30 overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-all",
+                  agreementPercent >= 70 ? "bg-green-500" : agreementPercent >= 40 ? "bg-yellow-500" : "bg-red-500"
+                )}
+                style={{ width: `${agreementPercent}%` }}
+              />
+            </div>
+          </div>
+
+          {/* Advisor Stances */}
+          {analysis.stances.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {analysis.stances.map((entry) => (
+                <div key={entry.advisor} className="flex items-start gap-2 p-2 rounded-lg border border-muted bg-background">
+                  <AdvisorAvatar agent={entry.advisor} size="sm" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium truncate">{getAgentName(entry.advisor).split(' ')[0]}</span>
+                      <span className={cn("px-1.5 py-0.5 text-[10px] rounded border", STANCE_CONFIG[entry.stance].className)}>
+                        {STANCE_CONFIG[entry.stance].label}
+                      </span>
+                    </div>
+                    <p className="text-[11px] text-muted leading-snug">{entry.position}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Agreements & Disagreements */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+            {analysis.agreements.length > 0 && (
+              <div>
+                <div className="flex items-center gap-1 font-semibold text-green-700 mb-1">
+                  <CheckCircle className="w-3 h-3" />
+                  Where they agree
+                </div>
+                <ul className="space-y-1 text-foreground">
+                  {analysis.agreements.map((point, i) => (
+                    <li key={i}>• {point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {analysis.disagreements.length > 0 && (
+              <div>
+                <div className="flex items-center gap-1 font-semibold text-yellow-700 mb-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Where they split
+                </div>
+                <ul className="space-y-1 text-foreground">
+                  {analysis.disagreements.map((point, i) => (
+                    <li key={i}>• {point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Majority & Minority Views */}
+          {(analysis.majorityView || analysis.minorityViews.length > 0) && (
+            <div className="space-y-2 text-xs">
+              {analysis.majorityView && (
+                <p>
+                  <span className="font-semibold">Majority view:</span> {analysis.majorityView}
+                </p>
+              )}
+              {analysis.minorityViews.map((minority, i) => (
+                <p key={i} className="flex items-start gap-1 text-muted">
+                  <Users className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {minority.view}
+                    {minority.advisors.length > 0 && ` (${minority.advisors.map(getAgentName).join(', ')})`}
+                  </span>
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import {
   getStorageStats,
   type ConversationHistoryItem,
 } from '@/lib/utils/conversation-storage';
+import { getModelDisplayName } from '@/lib/models/registry';
 
 interface ConversationHistoryProps {
   isOpen: boolean;
@@ -179,7 +180,7 @@ export default function ConversationHistory({
         </span>
         <span className="flex items-center gap-1" title="Model">
           <Cpu className="w-3 h-3" />
-          {conv.model.includes('opus') ? 'Opus' : conv.model.includes('sonnet') ? 'Sonnet' : 'Haiku'}
+          {getModelDisplayName(conv.model)}
         </span>
         {conv.hasResearch && (
           <span className="flex items-center gap-1 text-blue-600" title="Used research">
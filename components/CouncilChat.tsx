@@ -2,10 +2,18 @@
 
 import React, { useRef, useEffect, useCallback, useMemo } from 'react';
 import { useDebate } from '@/lib/hooks/useDebate';
-import type { Message, Toast, DebateSettings, DebateMode, ClaudeModel } from '@/lib/stores/debate-store';
+import type { Message, Toast, DebateSettings, DebateMode } from '@/lib/stores/debate-store';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { PERSONAS, ADVISOR_NAMES, type AdvisorName } from '@/lib/agents/personas';
+import { ADVISOR_NAMES } from '@/lib/agents/personas';
+import { PersonaRegistry, applyModeratorOverride, lookupPersona } from '@/lib/agents/persona-registry';
+import {
+  DEFAULT_CONSENSUS_QUORUM,
+  DEFAULT_SYNTHESIS_STYLE,
+  SYNTHESIS_STYLE_IDS,
+  SYNTHESIS_STYLES,
+  type SynthesisStyle,
+} from '@/lib/agents/synthesis';
 import { cn, formatTimestamp } from '@/lib/utils';
 import {
   Send, Loader2, AlertCircle, RotateCcw, Copy, CheckCheck,
@@ -13,15 +21,18 @@ import {
   MessageSquare, Zap, Brain, Settings2, X, Check, ChevronDown,
   Clock, Sparkles, TrendingUp, WifiOff, Wifi, Search, ExternalLink,
   Cpu, Gauge, History, Share2, Download, BarChart3, Key, Mic, MicOff,
-  Lightbulb, MoreVertical, FileText
+  Lightbulb, MoreVertical, FileText, DollarSign, Server, Users, PauseCircle
 } from 'lucide-react';
 import ConversationHistory from './ConversationHistory';
 import AnalyticsDashboard from './AnalyticsDashboard';
 import ApiKeySetup from './ApiKeySetup';
 import TemplateSelector from './TemplateSelector';
+import PersonaManager from './PersonaManager';
+import PersonaEditor from './PersonaEditor';
 import DebateVisualizer from './DebateVisualizer';
 import AdvisorAvatar from './AdvisorAvatar';
 import StatusDisplay from './StatusDisplay';
+import ActionPlan from './ActionPlan';
 import Logo, { LogoCompact } from './Logo';
 import { hasApiKeys, loadApiKeys, saveApiKeys } from '@/lib/utils/api-keys';
 import type { PromptTemplate } from '@/lib/utils/prompt-templates';
@@ -39,11 +50,23 @@ import {
   saveDebateAnalytics,
   type DebateAnalytics,
 } from '@/lib/utils/analytics';
+import { formatCost, formatTokens, getModeRounds, ADAPTIVE_DEFAULT_MAX_ROUNDS } from '@/lib/utils/cost-calculator';
+import { DEFAULT_AGREEMENT_THRESHOLD } from '@/lib/utils/stall-detection';
+import { formatActionPlanText } from '@/lib/utils/action-plan';
 import {
   getSmartDefaults,
   saveLastSettings,
   updateAdvisorPerformance,
 } from '@/lib/utils/memory-system';
+import {
+  listModels,
+  isKnownModel,
+  getModel,
+  getCouncilModels,
+  getModelDisplayName,
+  type ModelIcon,
+  type ModelId,
+} from '@/lib/models/registry';
 
 interface SavedConversation {
   messages: Message[];
@@ -54,12 +77,30 @@ interface SavedConversation {
 
 const STORAGE_KEY = 'council_conversation';
 
-const MODEL_CONFIG = {
-  'claude-opus-4-5': { label: 'Opus 4.5', desc: 'Most capable', icon: Sparkles, color: 'text-purple-500' },
-  'claude-sonnet-4-5': { label: 'Sonnet 4.5', desc: 'Balanced', icon: Brain, color: 'text-blue-500' },
-  'claude-haiku-4': { label: 'Haiku 4', desc: 'Fastest', icon: Zap, color: 'text-green-500' },
+const MODEL_ICONS: Record<ModelIcon, typeof Cpu> = {
+  sparkles: Sparkles,
+  brain: Brain,
+  zap: Zap,
+  server: Server,
+  cpu: Cpu,
 };
 
+/**
+ * Display config for a model from the registry (saved settings may reference removed models)
+ */
+function getModelConfig(model: ModelId) {
+  if (!isKnownModel(model)) {
+    return { label: model, desc: 'Unavailable', icon: Cpu, color: 'text-gray-500' };
+  }
+  const definition = getModel(model);
+  return {
+    label: definition.displayName,
+    desc: definition.description,
+    icon: MODEL_ICONS[definition.icon],
+    color: definition.color,
+  };
+}
+
 /**
  * Helper function to highlight "research" keyword in user messages
  */
@@ -109,6 +150,11 @@ export default function CouncilChat() {
     debateStartTimestamp,
     settings,
     retryCount,
+    costEstimate,
+    actualCost,
+    consensusByRound,
+    customPersonas,
+    moderatorOverride,
 
     // Actions
     setInput,
@@ -120,11 +166,18 @@ export default function CouncilChat() {
     setShowHistory,
     setShowAnalytics,
     setSettings,
+    setCustomPersonas,
+    setModeratorOverride,
     setApiKeysValid,
     setRateLimitInfo,
     setTimeEstimate,
     startDebate,
     stopDebate,
+    pauseDebate,
+    resumeDebate,
+    discardPausedDebate,
+    pausedDebate,
+    interruptDebate,
     clearConversation,
     showToast,
   } = useDebate();
@@ -138,6 +191,7 @@ export default function CouncilChat() {
   const [isVoiceSpeaking, setIsVoiceSpeaking] = React.useState(false);
   const [voiceEnabled, setVoiceEnabled] = React.useState(false);
   const [showTemplates, setShowTemplates] = React.useState(false);
+  const [showPersonaEditor, setShowPersonaEditor] = React.useState(false);
   const [showMobileMenu, setShowMobileMenu] = React.useState(false);
 
   // Refs for UI interactions
@@ -213,10 +267,20 @@ export default function CouncilChat() {
           title: conversationTitle,
           settings: {
             mode: settings.mode,
+            agreementThreshold: settings.agreementThreshold,
+            maxRounds: settings.maxRounds,
+            parallelFirstRound: settings.parallelFirstRound,
+            synthesisStyle: settings.synthesisStyle,
+            consensusQuorum: settings.consensusQuorum,
+            countPartialAgreement: settings.countPartialAgreement,
             selectedAdvisors: settings.selectedAdvisors,
             showSettings: false,
             model: settings.model,
+            modelAssignments: settings.modelAssignments,
+            fallbackModel: settings.fallbackModel,
+            maxCostUsd: settings.maxCostUsd,
             enableResearch: settings.enableResearch,
+            localModelName: settings.localModelName,
           },
           timestamp: Date.now()
         };
@@ -225,7 +289,7 @@ export default function CouncilChat() {
         console.error('Failed to save conversation:', err);
       }
     }
-  }, [messages, conversationTitle, settings.mode, settings.selectedAdvisors, settings.model, settings.enableResearch]);
+  }, [messages, conversationTitle, settings.mode, settings.agreementThreshold, settings.maxRounds, settings.parallelFirstRound, settings.synthesisStyle, settings.consensusQuorum, settings.countPartialAgreement, settings.selectedAdvisors, settings.model, settings.modelAssignments, settings.fallbackModel, settings.maxCostUsd, settings.enableResearch, settings.localModelName]);
 
   // Save settings to memory whenever they change
   useEffect(() => {
@@ -303,9 +367,8 @@ export default function CouncilChat() {
       if (modifier && e.key === 'Enter' && input.trim()) {
         e.preventDefault();
         if (isDebating) {
-          // User wants to interrupt - stop current debate and start new one
-          stopDebate();
-          setTimeout(() => startDebate(), 100); // Small delay to ensure clean state
+          // User wants to interject - queue it into the running debate
+          interruptDebate();
         } else {
           startDebate();
         }
@@ -384,6 +447,9 @@ export default function CouncilChat() {
         if (showApiKeySetup) {
           setShowApiKeySetup(false);
         }
+        if (showPersonaEditor) {
+          setShowPersonaEditor(false);
+        }
       }
 
       // Cmd/Ctrl + /: Show shortcuts
@@ -395,7 +461,7 @@ export default function CouncilChat() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isDebating, input, settings.showSettings, editingTitle, showHistory, showAnalytics, showTemplates, showApiKeySetup, messages.length, messages]);
+  }, [isDebating, input, settings.showSettings, editingTitle, showHistory, showAnalytics, showTemplates, showApiKeySetup, showPersonaEditor, messages.length, messages]);
 
   // Timer
   useEffect(() => {
@@ -419,16 +485,18 @@ export default function CouncilChat() {
     };
   }, [isDebating]);
 
-  const calculateTimeEstimate = useCallback((mode: DebateMode, advisorCount: number) => {
+  const calculateTimeEstimate = useCallback((mode: DebateMode, advisorCount: number, maxRounds?: number, parallelFirstRound?: boolean) => {
     const baseTimePerAdvisor = 15;
-    const rounds = mode === 'quick' ? 1 : mode === 'standard' ? 2 : 3;
-    return Math.ceil(advisorCount * rounds * baseTimePerAdvisor);
+    const rounds = getModeRounds(mode, maxRounds);
+    // A parallel Round 1 takes about as long as its slowest advisor
+    const turns = parallelFirstRound ? 1 + advisorCount * (rounds - 1) : advisorCount * rounds;
+    return Math.ceil(turns * baseTimePerAdvisor);
   }, []);
 
   useEffect(() => {
-    const estimate = calculateTimeEstimate(settings.mode, settings.selectedAdvisors.length);
+    const estimate = calculateTimeEstimate(settings.mode, settings.selectedAdvisors.length, settings.maxRounds, settings.parallelFirstRound);
     setTimeEstimate(estimate);
-  }, [settings.mode, settings.selectedAdvisors, calculateTimeEstimate]);
+  }, [settings.mode, settings.maxRounds, settings.parallelFirstRound, settings.selectedAdvisors, calculateTimeEstimate]);
 
   const generateTitle = useCallback((question: string) => {
     const words = question.trim().split(' ').slice(0, 8);
@@ -462,15 +530,29 @@ export default function CouncilChat() {
       .filter(m => m.type !== 'system' && m.type !== 'error')
       .map(m => {
         if (m.type === 'user') return `You: ${m.content}\n`;
-        if (m.type === 'agent') return `${PERSONAS[m.agent as keyof typeof PERSONAS]?.name || m.agent}: ${m.content}\n`;
-        if (m.type === 'final') return `\nFinal Answer:\n${m.content}\n`;
+        if (m.type === 'agent') return `${lookupPersona(m.agent || '', customPersonas)?.name || m.agent}: ${m.content}\n`;
+        if (m.type === 'final') {
+          const plan = m.structuredAnswer ? `\n${formatActionPlanText(m.structuredAnswer, m.completedSteps)}\n` : '';
+          return `\nFinal Answer:\n${m.content}\n${plan}`;
+        }
         if (m.type === 'interruption') return `\n[You interrupted]: ${m.content}\n`;
         return '';
       })
       .join('\n');
 
     copyToClipboard(text);
-  }, [messages, copyToClipboard]);
+  }, [messages, customPersonas, copyToClipboard]);
+
+  const toggleActionStep = useCallback((messageId: string, index: number) => {
+    setMessages(prev => prev.map(m => {
+      if (m.id !== messageId) return m;
+      const completed = m.completedSteps || [];
+      return {
+        ...m,
+        completedSteps: completed.includes(index) ? completed.filter(i => i !== index) : [...completed, index],
+      };
+    }));
+  }, [setMessages]);
 
   const rateMessage = useCallback((messageId: string, rating: number) => {
     setMessages(prev => {
@@ -503,11 +585,42 @@ export default function CouncilChat() {
         showToast('Select at least 2 advisors', 'error');
         return prev;
       }
+      if (selected.length > 5) {
+        showToast('Select at most 5 advisors', 'error');
+        return prev;
+      }
 
       return { ...prev, selectedAdvisors: selected };
     });
   }, [showToast]);
 
+  const setRoleModel = useCallback((role: string, model: ModelId | undefined) => {
+    setSettings(prev => {
+      const advisors = { ...prev.modelAssignments?.advisors };
+      let moderator = prev.modelAssignments?.moderator;
+
+      if (role === 'moderator') {
+        moderator = model;
+      } else if (model) {
+        advisors[role] = model;
+      } else {
+        delete advisors[role];
+      }
+
+      return { ...prev, modelAssignments: { moderator, advisors } };
+    });
+  }, []);
+
+  // Show the local model name field if any role runs on the self-hosted server
+  const usesLocalModel = useMemo(() =>
+    getCouncilModels(settings.model, settings.selectedAdvisors, settings.modelAssignments)
+      .some((model) => isKnownModel(model) && getModel(model).provider === 'openai-compatible'),
+  [settings.model, settings.selectedAdvisors, settings.modelAssignments]);
+
+  // Built-in advisors followed by the user's own
+  const advisorIds = useMemo(() => new PersonaRegistry(customPersonas).advisorIds, [customPersonas]);
+  const moderator = useMemo(() => applyModeratorOverride(moderatorOverride), [moderatorOverride]);
+
   const saveToHistory = useCallback(() => {
     if (messages.length === 0) return;
 
@@ -539,10 +652,14 @@ export default function CouncilChat() {
     saveConversationToHistory(historyItem);
   }, [messages, conversationTitle, settings.model, settings.mode, settings.selectedAdvisors, generateTitle]);
 
+  // Final answers already in the chat when the current debate started (so an earlier answer isn't credited to it)
+  const priorFinalIdsRef = useRef<Set<string>>(new Set());
+
   const saveToAnalytics = useCallback(() => {
     if (messages.length === 0 || debateStartTimestamp === 0) return;
 
-    const finalAnswer = messages.filter(m => m.type === 'final').pop();
+    // Only debates that produced their own final answer count (not stopped, paused or failed runs)
+    const finalAnswer = messages.filter(m => m.type === 'final' && !priorFinalIdsRef.current.has(m.id)).pop();
     if (!finalAnswer) return;
 
     const duration = Math.floor((Date.now() - debateStartTimestamp) / 1000);
@@ -574,10 +691,27 @@ export default function CouncilChat() {
       wasInterrupted,
       questionLength,
       answerLength,
+      estimatedCost: costEstimate?.estimatedCost,
+      actualCost: actualCost?.total.totalCost,
+      totalTokens: actualCost
+        ? actualCost.total.inputTokens + actualCost.total.outputTokens + actualCost.total.cacheCreationTokens + actualCost.total.cacheReadTokens
+        : undefined,
     };
 
     saveDebateAnalytics(analyticsData);
-  }, [messages, debateStartTimestamp, settings.model, settings.mode, settings.selectedAdvisors]);
+  }, [messages, debateStartTimestamp, settings.model, settings.mode, settings.selectedAdvisors, costEstimate, actualCost]);
+
+  // Record analytics once a debate finishes
+  const wasDebatingRef = useRef(false);
+  useEffect(() => {
+    if (!wasDebatingRef.current && isDebating) {
+      priorFinalIdsRef.current = new Set(messages.filter(m => m.type === 'final').map(m => m.id));
+    } else if (wasDebatingRef.current && !isDebating) {
+      saveToAnalytics();
+    }
+    wasDebatingRef.current = isDebating;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isDebating, saveToAnalytics]);
 
   const loadConversationFromHistory = useCallback((conv: ConversationHistoryItem) => {
     // Load the conversation into the current state
@@ -751,7 +885,7 @@ export default function CouncilChat() {
       setSettings(prev => ({ ...prev, mode: template.mode! }));
     }
     if (template.advisors && template.advisors.length > 0) {
-      setSettings(prev => ({ ...prev, selectedAdvisors: template.advisors as AdvisorName[] }));
+      setSettings(prev => ({ ...prev, selectedAdvisors: template.advisors as string[] }));
     }
 
     showToast(`Template "${template.title}" loaded`, 'success');
@@ -760,19 +894,19 @@ export default function CouncilChat() {
 
   const getAgentColor = (agent?: string) => {
     if (!agent) return '#B1ADA1';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.color || '#B1ADA1';
   };
 
   const getAgentAvatar = (agent?: string) => {
     if (!agent) return '🤖';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.avatar || '🤖';
   };
 
   const getAgentName = (agent?: string) => {
     if (!agent) return 'System';
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.name || agent;
   };
 
@@ -784,6 +918,8 @@ export default function CouncilChat() {
         return { icon: Brain, label: 'Standard', desc: '2 rounds, ~3min', color: 'text-blue-500' };
       case 'deep':
         return { icon: Sparkles, label: 'Deep', desc: '3 rounds, ~5min', color: 'text-purple-500' };
+      case 'adaptive':
+        return { icon: Gauge, label: 'Adaptive', desc: 'Stops at agreement', color: 'text-green-500' };
     }
   };
 
@@ -899,11 +1035,27 @@ export default function CouncilChat() {
               {/* Desktop: Show all buttons (only on large screens >= 1024px) */}
               <div className="hidden lg:flex items-center gap-2">
                 {/* Model indicator */}
-                <div className="flex items-center gap-1 px-2 py-1 rounded bg-muted/20 text-[10px] text-muted" title={`Using ${MODEL_CONFIG[settings.model].label}`}>
+                <div className="flex items-center gap-1 px-2 py-1 rounded bg-muted/20 text-[10px] text-muted" title={`Using ${getModelConfig(settings.model).label}`}>
                   <Cpu className="w-3 h-3" />
-                  <span>{MODEL_CONFIG[settings.model].label}</span>
+                  <span>{getModelConfig(settings.model).label}</span>
                 </div>
 
+                {/* Real cost vs estimate */}
+                {(actualCost || costEstimate) && (
+                  <div
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-muted/20 text-[10px] text-muted"
+                    title={actualCost
+                      ? `${formatTokens(actualCost.total.inputTokens + actualCost.total.outputTokens)} · ${formatTokens(actualCost.total.cacheReadTokens)} cached · ${actualCost.total.calls} calls`
+                      : 'Estimated cost'}
+                  >
+                    <DollarSign className="w-3 h-3" />
+                    <span>
+                      {actualCost ? formatCost(actualCost.total.totalCost) : '—'}
+                      {costEstimate && ` / ~${formatCost(costEstimate.estimatedCost)} est.`}
+                    </span>
+                  </div>
+                )}
+
                 {localIsOnline && messages.length > 0 && (
                   <div className="flex items-center gap-1 text-xs text-muted" title="Online">
                     <Wifi className="w-3 h-3 text-green-500" />
@@ -918,6 +1070,13 @@ export default function CouncilChat() {
                         {formatTime(localElapsedTime)} / {formatTime(timeEstimate)}
                       </span>
                     </div>
+                    <button
+                      onClick={pauseDebate}
+                      className="p-2 text-muted hover:text-foreground hover:bg-surface rounded-lg transition-colors"
+                      title="Pause after the current advisor"
+                    >
+                      <PauseCircle className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={stopDebate}
                       className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -1027,13 +1186,22 @@ export default function CouncilChat() {
               {/* Mobile/Tablet: Stop button (when debating) or Primary action + Overflow menu (< 1024px) */}
               <div className="flex lg:hidden items-center gap-2">
                 {isDebating ? (
-                  <button
-                    onClick={stopDebate}
-                    className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                    title="Stop debate"
-                  >
-                    <StopCircle className="w-5 h-5" />
-                  </button>
+                  <>
+                    <button
+                      onClick={pauseDebate}
+                      className="p-2 text-muted hover:text-foreground hover:bg-surface rounded-lg transition-colors"
+                      title="Pause debate"
+                    >
+                      <PauseCircle className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={stopDebate}
+                      className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Stop debate"
+                    >
+                      <StopCircle className="w-5 h-5" />
+                    </button>
+                  </>
                 ) : (
                   <>
                     {messages.length > 0 && (
@@ -1174,11 +1342,11 @@ export default function CouncilChat() {
               {/* Model Selection */}
               <div>
                 <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
-                  Claude Model
+                  Model
                 </label>
-                <div className="grid grid-cols-3 gap-2">
-                  {(Object.keys(MODEL_CONFIG) as ClaudeModel[]).map((model) => {
-                    const config = MODEL_CONFIG[model];
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {listModels().map(({ id: model }) => {
+                    const config = getModelConfig(model);
                     const Icon = config.icon;
                     return (
                       <button
@@ -1200,6 +1368,99 @@ export default function CouncilChat() {
                     );
                   })}
                 </div>
+                {usesLocalModel && (
+                  <div className="mt-2">
+                    <input
+                      type="text"
+                      value={settings.localModelName || ''}
+                      onChange={(e) => setSettings(prev => ({ ...prev, localModelName: e.target.value || undefined }))}
+                      placeholder="Model name (server default if empty)"
+                      className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                    />
+                    <p className="text-[10px] text-muted mt-1">
+                      Served from the OpenAI-compatible endpoint set in OPENAI_COMPATIBLE_BASE_URL
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Per-Role Models */}
+              <div>
+                <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                  Per-Role Models
+                </label>
+                <div className="space-y-2">
+                  {['moderator', ...settings.selectedAdvisors].map((role) => {
+                    const assigned = role === 'moderator'
+                      ? settings.modelAssignments?.moderator
+                      : settings.modelAssignments?.advisors?.[role];
+                    const name = role === 'moderator' ? 'Moderator' : getAgentName(role);
+                    return (
+                      <div key={role} className="flex items-center justify-between gap-3">
+                        <span className="text-sm">{name}</span>
+                        <select
+                          value={assigned || ''}
+                          onChange={(e) => setRoleModel(role, e.target.value || undefined)}
+                          className="px-3 py-1.5 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                        >
+                          <option value="">Default ({getModelDisplayName(settings.model)})</option>
+                          {listModels().map((model) => (
+                            <option key={model.id} value={model.id}>{model.displayName}</option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[10px] text-muted mt-1">
+                  Run cheap advisors on a fast model and the moderator on a stronger one
+                </p>
+              </div>
+
+              {/* Fallback Model */}
+              <div>
+                <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                  Fallback Model
+                </label>
+                <select
+                  value={settings.fallbackModel || ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, fallbackModel: e.target.value || undefined }))}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                >
+                  <option value="">None</option>
+                  {listModels().map((model) => (
+                    <option key={model.id} value={model.id}>{model.displayName}</option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-muted mt-1">
+                  An advisor whose model stays overloaded after retries answers on this one instead
+                </p>
+              </div>
+
+              {/* Spending Cap */}
+              <div>
+                <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                  Spending Cap
+                </label>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted">$</span>
+                  <input
+                    type="number"
+                    min={0.01}
+                    max={100}
+                    step={0.05}
+                    value={settings.maxCostUsd ?? ''}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      setSettings(prev => ({ ...prev, maxCostUsd: e.target.value && value > 0 ? Math.min(value, 100) : undefined }));
+                    }}
+                    placeholder="No limit"
+                    className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                  />
+                </div>
+                <p className="text-[10px] text-muted mt-1">
+                  The debate wraps up early with an answer from what was said rather than exceed this
+                </p>
               </div>
 
               {/* Debate Mode */}
@@ -1207,8 +1468,8 @@ export default function CouncilChat() {
                 <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
                   Debate Mode
                 </label>
-                <div className="grid grid-cols-3 gap-2">
-                  {(['quick', 'standard', 'deep'] as const).map((mode) => {
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {(['quick', 'standard', 'deep', 'adaptive'] as const).map((mode) => {
                     const config = getModeConfig(mode);
                     const Icon = config.icon;
                     return (
@@ -1231,6 +1492,43 @@ export default function CouncilChat() {
                     );
                   })}
                 </div>
+                {settings.mode === 'adaptive' && (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span>Agreement threshold</span>
+                        <span className="text-muted">{Math.round((settings.agreementThreshold ?? DEFAULT_AGREEMENT_THRESHOLD) * 100)}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={50}
+                        max={95}
+                        step={5}
+                        value={Math.round((settings.agreementThreshold ?? DEFAULT_AGREEMENT_THRESHOLD) * 100)}
+                        onChange={(e) => setSettings(prev => ({ ...prev, agreementThreshold: Number(e.target.value) / 100 }))}
+                        className="w-full accent-primary"
+                      />
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span>Max rounds</span>
+                        <span className="text-muted">{settings.maxRounds ?? ADAPTIVE_DEFAULT_MAX_ROUNDS}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={2}
+                        max={6}
+                        step={1}
+                        value={settings.maxRounds ?? ADAPTIVE_DEFAULT_MAX_ROUNDS}
+                        onChange={(e) => setSettings(prev => ({ ...prev, maxRounds: Number(e.target.value) }))}
+                        className="w-full accent-primary"
+                      />
+                    </div>
+                    <p className="sm:col-span-2 text-[10px] text-muted">
+                      Ends as soon as the council agrees, or when advisors stop changing their positions
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* Research Toggle */}
@@ -1252,13 +1550,97 @@ export default function CouncilChat() {
                 </label>
               </div>
 
+              {/* Parallel First Round Toggle */}
+              <div>
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.parallelFirstRound ?? false}
+                    onChange={(e) => setSettings(prev => ({ ...prev, parallelFirstRound: e.target.checked }))}
+                    className="w-4 h-4"
+                  />
+                  <div>
+                    <div className="text-sm font-semibold text-foreground flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      Independent First Round
+                    </div>
+                    <p className="text-[10px] text-muted">Advisors answer Round 1 at once without seeing each other, then debate</p>
+                  </div>
+                </label>
+              </div>
+
+              {/* Final Answer Style */}
+              <div>
+                <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                  Final Answer Style
+                </label>
+                <select
+                  value={settings.synthesisStyle || DEFAULT_SYNTHESIS_STYLE}
+                  onChange={(e) => setSettings(prev => ({ ...prev, synthesisStyle: e.target.value as SynthesisStyle }))}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                >
+                  {SYNTHESIS_STYLE_IDS.map((style) => (
+                    <option key={style} value={style}>{SYNTHESIS_STYLES[style].label}</option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-muted mt-1">
+                  {SYNTHESIS_STYLES[settings.synthesisStyle || DEFAULT_SYNTHESIS_STYLE].description}
+                </p>
+              </div>
+
+              {/* Consensus Strictness */}
+              <div>
+                <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                  Consensus Strictness
+                </label>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span>Advisors who must agree</span>
+                  <span className="text-muted">{settings.consensusQuorum ?? DEFAULT_CONSENSUS_QUORUM}</span>
+                </div>
+                <input
+                  type="range"
+                  min={2}
+                  max={5}
+                  step={1}
+                  value={settings.consensusQuorum ?? DEFAULT_CONSENSUS_QUORUM}
+                  onChange={(e) => setSettings(prev => ({ ...prev, consensusQuorum: Number(e.target.value) }))}
+                  className="w-full accent-primary"
+                />
+                <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.countPartialAgreement ?? true}
+                    onChange={(e) => setSettings(prev => ({ ...prev, countPartialAgreement: e.target.checked }))}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Count partial agreement</span>
+                </label>
+                <p className="text-[10px] text-muted mt-1">
+                  {(settings.consensusQuorum ?? DEFAULT_CONSENSUS_QUORUM) > settings.selectedAdvisors.length
+                    ? 'More than the advisors selected - every advisor will need to agree'
+                    : 'How many advisors must agree before the moderator calls it consensus'}
+                </p>
+              </div>
+
+              {/* Custom Advisors */}
+              <PersonaManager
+                personas={customPersonas}
+                moderatorOverride={moderatorOverride}
+                selectedAdvisors={settings.selectedAdvisors}
+                onChange={setCustomPersonas}
+                onModeratorOverrideChange={setModeratorOverride}
+                onSelectAdvisors={(selectedAdvisors) => setSettings(prev => ({ ...prev, selectedAdvisors }))}
+                onOpenEditor={() => setShowPersonaEditor(true)}
+                showToast={showToast}
+              />
+
               {/* Advisor Selector */}
               <div>
                 <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
                   Select Advisors ({settings.selectedAdvisors.length}/5)
                 </label>
                 <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
-                  {ADVISOR_NAMES.map((name) => {
+                  {advisorIds.map((name) => {
                     const isSelected = settings.selectedAdvisors.includes(name);
                     return (
                       <button
@@ -1307,9 +1689,10 @@ export default function CouncilChat() {
             <DebateVisualizer
               messages={messages}
               currentRound={currentRound}
-              maxRounds={settings.mode === 'quick' ? 1 : settings.mode === 'deep' ? 3 : 2}
+              maxRounds={getModeRounds(settings.mode, settings.maxRounds)}
               selectedAdvisors={settings.selectedAdvisors}
               isDebating={isDebating}
+              consensusByRound={consensusByRound}
             />
           )}
 
@@ -1318,6 +1701,7 @@ export default function CouncilChat() {
             status={currentStatus}
             isDebating={isDebating}
             currentRound={currentRound}
+            retryCount={retryCount}
           />
 
           {messages.length === 0 && (
@@ -1529,12 +1913,12 @@ export default function CouncilChat() {
               ) : message.type === 'moderator' ? (
                 <div className="flex gap-2 sm:gap-3 max-w-3xl">
                   <div className="flex-shrink-0 w-8 h-8 sm:w-9 sm:h-9 rounded-xl bg-muted/20 flex items-center justify-center text-base sm:text-lg">
-                    ⚖️
+                    {moderator.avatar}
                   </div>
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-2">
                       <span className="font-semibold text-xs sm:text-sm text-foreground">
-                        Moderator
+                        {moderatorOverride?.name || 'Moderator'}
                       </span>
                       <span className="text-[10px] sm:text-xs text-muted">
                         {formatTimestamp(message.timestamp)}
@@ -1597,6 +1981,14 @@ export default function CouncilChat() {
                     </ReactMarkdown>
                   </div>
 
+                  {message.structuredAnswer && (
+                    <ActionPlan
+                      answer={message.structuredAnswer}
+                      completedSteps={message.completedSteps}
+                      onToggleStep={(index) => toggleActionStep(message.id, index)}
+                    />
+                  )}
+
                   <div className="flex flex-wrap gap-2 pt-4 border-t border-muted/30">
                     <button
                       onClick={() => copyToClipboard(message.content, message.id)}
@@ -1677,13 +2069,40 @@ export default function CouncilChat() {
       {/* Input */}
       <div className="bg-surface border-t border-muted px-4 sm:px-6 py-3 sm:py-4 flex-shrink-0">
         <div className="max-w-4xl mx-auto">
+          {/* Paused debate banner */}
+          {pausedDebate && !isDebating && (
+            <div className="mb-2 flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-primary/30 bg-primary/5 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <PauseCircle className="w-4 h-4 text-primary flex-shrink-0" />
+                <span className="truncate">
+                  Debate paused in Round {Math.max(pausedDebate.checkpoint.currentRound, 1)}: "{pausedDebate.config.question}"
+                </span>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={resumeDebate}
+                  disabled={!localIsOnline}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg bg-primary text-white text-xs hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                >
+                  <PlayCircle className="w-3 h-3" />
+                  Resume
+                </button>
+                <button
+                  onClick={discardPausedDebate}
+                  className="px-3 py-1 rounded-lg text-xs text-muted hover:text-foreground hover:bg-surface transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
           <form
             onSubmit={(e) => {
               e.preventDefault();
               if (isDebating) {
-                // User wants to interrupt - stop current debate and start new one
-                stopDebate();
-                setTimeout(() => startDebate(), 100); // Small delay to ensure clean state
+                // User wants to interject - queue it into the running debate
+                interruptDebate();
               } else {
                 startDebate();
               }
@@ -1761,7 +2180,7 @@ export default function CouncilChat() {
                     ? "bg-yellow-500 hover:bg-yellow-600 text-white shadow-md"
                     : "btn-primary shadow-md hover:shadow-lg"
                 )}
-                title={!localIsOnline ? "You're offline" : isDebating ? "Interrupt and ask new question" : "Submit question (Enter)"}
+                title={!localIsOnline ? "You're offline" : isDebating ? "Interrupt the council with a comment or question" : "Submit question (Enter)"}
               >
                 {isDebating ? (
                   <>
@@ -1791,8 +2210,8 @@ export default function CouncilChat() {
               <span>~{formatTime(timeEstimate)}</span>
               <span>•</span>
               <span className="flex items-center gap-1">
-                {React.createElement(MODEL_CONFIG[settings.model].icon, { className: "w-3 h-3" })}
-                {MODEL_CONFIG[settings.model].label}
+                {React.createElement(getModelConfig(settings.model).icon, { className: "w-3 h-3" })}
+                {getModelConfig(settings.model).label}
               </span>
               {settings.enableResearch && (
                 <>
@@ -1829,6 +2248,19 @@ export default function CouncilChat() {
         initialKeys={currentApiKeys}
       />
 
+      {/* Persona Editor */}
+      <PersonaEditor
+        isOpen={showPersonaEditor}
+        onClose={() => setShowPersonaEditor(false)}
+        customPersonas={customPersonas}
+        model={settings.model}
+        localModelName={settings.localModelName}
+        onSaveCustomPersonas={setCustomPersonas}
+        moderatorOverride={moderatorOverride}
+        onModeratorOverrideChange={setModeratorOverride}
+        showToast={showToast}
+      />
+
       {/* Template Selector */}
       <TemplateSelector
         isOpen={showTemplates}
@@ -3,9 +3,11 @@
 import React from 'react';
 import { CheckCircle, Circle, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { PERSONAS, type AdvisorName } from '@/lib/agents/personas';
-import type { Message } from '@/lib/stores/debate-store';
+import { lookupPersona } from '@/lib/agents/persona-registry';
+import { useDebateStore, type Message } from '@/lib/stores/debate-store';
+import type { ConsensusAnalysis } from '@/lib/agents/types';
 import AdvisorAvatar from './AdvisorAvatar';
+import ConsensusPanel from './ConsensusPanel';
 
 interface DebateVisualizerProps {
   messages: Message[];
@@ -13,6 +15,7 @@ interface DebateVisualizerProps {
   maxRounds: number;
   selectedAdvisors: string[];
   isDebating: boolean;
+  consensusByRound?: Record<number, ConsensusAnalysis>;
 }
 
 export default function DebateVisualizer({
@@ -21,7 +24,10 @@ export default function DebateVisualizer({
   maxRounds,
   selectedAdvisors,
   isDebating,
+  consensusByRound = {},
 }: DebateVisualizerProps) {
+  const customPersonas = useDebateStore((state) => state.customPersonas);
+
   // Track which advisors have responded in current round
   const getAdvisorStatus = (advisor: string) => {
     const advisorMessages = messages.filter(
@@ -37,17 +43,17 @@ export default function DebateVisualizer({
   };
 
   const getAgentColor = (agent: string) => {
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.color || '#B1ADA1';
   };
 
   const getAgentAvatar = (agent: string) => {
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.avatar || '🤖';
   };
 
   const getAgentName = (agent: string) => {
-    const persona = PERSONAS[agent as keyof typeof PERSONAS];
+    const persona = lookupPersona(agent, customPersonas);
     return persona?.name || agent;
   };
 
@@ -127,8 +133,11 @@ export default function DebateVisualizer({
         </div>
       </div>
 
-      {/* Consensus Indicator */}
-      {messages.some(m => m.type === 'final') && (
+      {/* Consensus Analysis (where the council agrees and splits) */}
+      <ConsensusPanel consensusByRound={consensusByRound} />
+
+      {/* Consensus Indicator (debates without a structured analysis) */}
+      {Object.keys(consensusByRound).length === 0 && messages.some(m => m.type === 'final') && (
         <div className="mt-4 pt-4 border-t border-muted">
           <div className="flex items-center gap-2 text-sm">
             <CheckCircle className="w-4 h-4 text-green-500" />
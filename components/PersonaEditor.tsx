@@ -0,0 +1,444 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { FlaskConical, GitCompare, Play, Save, Square, Trash2, RotateCcw, X } from 'lucide-react';
+import {
+  applyModeratorOverride,
+  createPersonaId,
+  lookupPersona,
+  MAX_CUSTOM_PERSONAS,
+  PersonaRegistry,
+  type CustomPersona,
+  type ModeratorOverride,
+} from '@/lib/agents/persona-registry';
+import type { ModelId } from '@/lib/models/registry';
+import type { Toast } from '@/lib/stores/debate-store';
+import { councilService } from '@/lib/services/council-service';
+import { CustomPersonaSchema } from '@/lib/utils/security';
+import {
+  deletePromptVersion,
+  loadPromptVersions,
+  savePromptVersion,
+  type PromptVersion,
+} from '@/lib/utils/prompt-versions';
+import { diffLines } from '@/lib/utils/text-diff';
+import { cn } from '@/lib/utils';
+import AdvisorAvatar from './AdvisorAvatar';
+
+interface PersonaEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customPersonas: CustomPersona[];
+  model: ModelId; // Model the test-drive runs on
+  localModelName?: string;
+  onSaveCustomPersonas: (personas: CustomPersona[]) => void;
+  moderatorOverride: ModeratorOverride | null;
+  onModeratorOverrideChange: (override: ModeratorOverride | null) => void;
+  showToast: (message: string, type: Toast['type']) => void;
+}
+
+const DEFAULT_TEST_QUESTION = 'Should I quit my job to work on my side project full time?';
+
+export default function PersonaEditor({
+  isOpen,
+  onClose,
+  customPersonas,
+  model,
+  localModelName,
+  onSaveCustomPersonas,
+  moderatorOverride,
+  onModeratorOverrideChange,
+  showToast,
+}: PersonaEditorProps) {
+  const advisorIds = useMemo(() => new PersonaRegistry(customPersonas).advisorIds, [customPersonas]);
+  const moderator = useMemo(() => applyModeratorOverride(moderatorOverride), [moderatorOverride]);
+  const [personaId, setPersonaId] = useState(() => customPersonas[0]?.id ?? advisorIds[0]);
+  const isModerator = personaId === 'moderator';
+  const persona = isModerator ? moderator : lookupPersona(personaId, customPersonas);
+  const isCustom = customPersonas.some((p) => p.id === personaId);
+
+  const [draft, setDraft] = useState(persona?.systemPrompt ?? '');
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [versionLabel, setVersionLabel] = useState('');
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const [question, setQuestion] = useState(DEFAULT_TEST_QUESTION);
+  const [output, setOutput] = useState('');
+  const [testStatus, setTestStatus] = useState<string | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Switching persona starts from its current prompt and its own version history
+  useEffect(() => {
+    abortRef.current?.abort();
+    setDraft((personaId === 'moderator' ? moderator : lookupPersona(personaId, customPersonas))?.systemPrompt ?? '');
+    setVersions(loadPromptVersions(personaId));
+    setCompareId(null);
+    setOutput('');
+    setTestError(null);
+    setTestStatus(null);
+    // customPersonas and moderator are left out on purpose: saving the draft shouldn't reset the editor
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [personaId]);
+
+  // A deleted persona can't stay selected
+  useEffect(() => {
+    if (personaId !== 'moderator' && !advisorIds.includes(personaId)) setPersonaId(advisorIds[0]);
+  }, [advisorIds, personaId]);
+
+  // Don't leave a test streaming after the editor closes
+  useEffect(() => {
+    if (!isOpen) abortRef.current?.abort();
+  }, [isOpen]);
+
+  const compared = versions.find((version) => version.id === compareId);
+  const diff = useMemo(() => (compared ? diffLines(compared.systemPrompt, draft) : []), [compared, draft]);
+
+  if (!isOpen || !persona) return null;
+
+  const isDirty = draft !== persona.systemPrompt;
+
+  const draftPersona = () => {
+    const result = CustomPersonaSchema.omit({ id: true }).safeParse({
+      name: persona.name,
+      role: persona.role,
+      color: persona.color,
+      avatar: persona.avatar,
+      systemPrompt: draft,
+    });
+    if (!result.success) {
+      showToast(result.error.issues[0]?.message || 'Invalid system prompt', 'error');
+      return null;
+    }
+    return result.data;
+  };
+
+  const runTest = async () => {
+    const testPersona = draftPersona();
+    if (!testPersona || !question.trim() || isModerator) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsTesting(true);
+    setOutput('');
+    setTestError(null);
+    setTestStatus(`${persona.name} is thinking...`);
+
+    try {
+      await councilService.testPersona(
+        { persona: testPersona, question: question.trim(), model, localModelName },
+        (event) => {
+          switch (event.type) {
+            case 'agent_response':
+              setTestStatus(null);
+              setOutput((prev) => prev + (event.content || ''));
+              break;
+            case 'retry':
+              setTestStatus(event.content || 'Retrying...');
+              break;
+            case 'error':
+              setTestError(event.content || 'The test run failed');
+              break;
+          }
+        },
+        controller.signal
+      );
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        setTestError(error.message || 'The test run failed');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsTesting(false);
+        setTestStatus(null);
+      }
+    }
+  };
+
+  const stopTest = () => {
+    abortRef.current?.abort();
+  };
+
+  const saveVersion = () => {
+    setVersions(savePromptVersion(personaId, draft, versionLabel));
+    setVersionLabel('');
+    showToast('Prompt version saved', 'success');
+  };
+
+  const removeVersion = (version: PromptVersion) => {
+    if (!confirm(`Delete "${version.label}"?`)) return;
+    setVersions(deletePromptVersion(personaId, version.id));
+    if (compareId === version.id) setCompareId(null);
+  };
+
+  // Custom advisors are updated in place; built-ins are copied (they ship with the app).
+  // The moderator is never copied - its prompt is stored as the moderator override.
+  const applyDraft = () => {
+    const updated = draftPersona();
+    if (!updated) return;
+
+    if (isModerator) {
+      onModeratorOverrideChange({ ...moderatorOverride, systemPrompt: updated.systemPrompt });
+      showToast(`${persona.name} updated`, 'success');
+      return;
+    }
+
+    if (isCustom) {
+      onSaveCustomPersonas(customPersonas.map((p) => (p.id === personaId ? { ...p, systemPrompt: updated.systemPrompt } : p)));
+      showToast(`${persona.name} updated`, 'success');
+      return;
+    }
+
+    if (customPersonas.length >= MAX_CUSTOM_PERSONAS) {
+      showToast(`You already have ${MAX_CUSTOM_PERSONAS} custom advisors`, 'error');
+      return;
+    }
+    const name = `${persona.name} (tuned)`.slice(0, 50);
+    const copy: CustomPersona = { ...updated, name, id: createPersonaId(name, customPersonas.map((p) => p.id)) };
+    onSaveCustomPersonas([...customPersonas, copy]);
+    showToast(`Saved as custom advisor "${name}"`, 'success');
+    setPersonaId(copy.id);
+  };
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black/20 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Editor */}
+      <div className="fixed inset-0 z-50 overflow-hidden pointer-events-none">
+        <div className="h-full flex items-center justify-center p-4">
+          <div className="bg-background rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden pointer-events-auto animate-slide-in">
+            {/* Header */}
+            <div className="bg-surface border-b border-muted px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                  <FlaskConical className="w-6 h-6 text-primary" />
+                  Persona Editor
+                </h2>
+                <p className="text-xs text-muted mt-1">Tune an advisor&apos;s or the moderator&apos;s system prompt and test-drive it on a sample question</p>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <select
+                  value={personaId}
+                  onChange={(e) => setPersonaId(e.target.value)}
+                  className="px-3 py-2 text-sm rounded-lg border border-muted bg-background focus:border-primary outline-none"
+                >
+                  {advisorIds.map((id) => (
+                    <option key={id} value={id}>
+                      {lookupPersona(id, customPersonas)?.name || id}
+                    </option>
+                  ))}
+                  <option value="moderator">{moderator.name} (moderator)</option>
+                </select>
+                <button
+                  onClick={onClose}
+                  className="p-2 rounded-lg hover:bg-muted/20 text-muted hover:text-foreground transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="overflow-y-auto p-6" style={{ maxHeight: 'calc(90vh - 80px)' }}>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Prompt */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-3">
+                    <AdvisorAvatar agent={personaId} size="md" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold truncate" style={{ color: persona.color }}>{persona.name}</div>
+                      <div className="text-xs text-muted truncate">
+                        {persona.role}{!isCustom && !isModerator && ' · built-in'}{isDirty && ' · unsaved changes'}
+                      </div>
+                    </div>
+                    {isDirty && (
+                      <button
+                        onClick={() => setDraft(persona.systemPrompt)}
+                        className="p-1.5 hover:bg-surface rounded-lg transition-colors text-muted"
+                        title="Discard changes"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={16}
+                    maxLength={8000}
+                    spellCheck={false}
+                    className="w-full px-3 py-2 text-xs rounded-lg border border-muted bg-surface focus:border-primary outline-none font-mono"
+                  />
+                  <div className="flex items-center justify-between text-[10px] text-muted">
+                    <span>{draft.length}/8000 characters</span>
+                    <button
+                      onClick={applyDraft}
+                      disabled={(isCustom || isModerator) && !isDirty}
+                      className="btn-primary px-3 py-1.5 text-sm disabled:opacity-50"
+                    >
+                      {isModerator ? 'Save to moderator' : isCustom ? 'Save to advisor' : 'Save as custom advisor'}
+                    </button>
+                  </div>
+
+                  {/* Versions */}
+                  <div>
+                    <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                      Prompt Versions
+                    </label>
+                    <div className="flex gap-2 mb-2">
+                      <input
+                        type="text"
+                        value={versionLabel}
+                        onChange={(e) => setVersionLabel(e.target.value)}
+                        placeholder={`Version ${versions.length + 1}`}
+                        maxLength={60}
+                        className="flex-1 px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                      />
+                      <button onClick={saveVersion} className="btn-secondary px-3 py-1.5 text-sm flex items-center gap-1">
+                        <Save className="w-3.5 h-3.5" />
+                        Save version
+                      </button>
+                    </div>
+
+                    {versions.length === 0 ? (
+                      <p className="text-[10px] text-muted">Save a version to compare later edits against it</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {versions.map((version) => (
+                          <div
+                            key={version.id}
+                            className={cn(
+                              "flex items-center gap-2 px-2 py-1.5 rounded-lg border text-xs",
+                              compareId === version.id ? "border-primary bg-primary/5" : "border-muted"
+                            )}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <div className="font-medium truncate">{version.label}</div>
+                              <div className="text-[10px] text-muted">{new Date(version.createdAt).toLocaleString()}</div>
+                            </div>
+                            <button
+                              onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                              className="p-1.5 hover:bg-surface rounded-lg transition-colors"
+                              title="Compare with the current draft"
+                            >
+                              <GitCompare className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => setDraft(version.systemPrompt)}
+                              className="p-1.5 hover:bg-surface rounded-lg transition-colors"
+                              title="Load into the editor"
+                            >
+                              <RotateCcw className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => removeVersion(version)}
+                              className="p-1.5 hover:bg-surface rounded-lg transition-colors text-red-500"
+                              title="Delete version"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Diff */}
+                  {compared && (
+                    <div>
+                      <label className="text-xs font-semibold text-muted uppercase tracking-wide mb-2 block">
+                        {compared.label} → current draft
+                      </label>
+                      <pre className="text-[11px] leading-relaxed rounded-lg border border-muted bg-surface p-2 overflow-x-auto max-h-72 whitespace-pre-wrap">
+                        {diff.every((line) => line.type === 'same') ? (
+                          <span className="text-muted">No differences</span>
+                        ) : (
+                          diff.map((line, i) => (
+                            <div
+                              key={i}
+                              className={cn(
+                                line.type === 'added' && "bg-green-500/10 text-green-700 dark:text-green-400",
+                                line.type === 'removed' && "bg-red-500/10 text-red-700 dark:text-red-400 line-through",
+                                line.type === 'same' && "text-muted"
+                              )}
+                            >
+                              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                              {line.text || ' '}
+                            </div>
+                          ))
+                        )}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+
+                {/* Test pane */}
+                <div className="space-y-3">
+                  <label className="text-xs font-semibold text-muted uppercase tracking-wide block">
+                    Test Drive
+                  </label>
+                  <textarea
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    rows={3}
+                    maxLength={5000}
+                    placeholder="Ask a sample question"
+                    className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] text-muted">
+                      {isModerator
+                        ? 'The moderator only speaks in a live debate - save the prompt and ask the council'
+                        : 'Runs the draft prompt as a Round 1 answer - nothing is saved'}
+                    </span>
+                    {isTesting ? (
+                      <button onClick={stopTest} className="btn-secondary px-3 py-1.5 text-sm flex items-center gap-1">
+                        <Square className="w-3.5 h-3.5" />
+                        Stop
+                      </button>
+                    ) : (
+                      <button
+                        onClick={runTest}
+                        disabled={!question.trim() || isModerator}
+                        className="btn-primary px-3 py-1.5 text-sm flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <Play className="w-3.5 h-3.5" />
+                        Run test
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="min-h-[12rem] rounded-2xl px-4 py-3 border border-muted bg-surface">
+                    {testStatus && <p className="text-xs text-muted italic mb-2">{testStatus}</p>}
+                    {output ? (
+                      <div className="message-content text-foreground text-sm prose prose-sm max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{output}</ReactMarkdown>
+                      </div>
+                    ) : (
+                      !testStatus && !testError && (
+                        <p className="text-xs text-muted">The advisor&apos;s answer streams here</p>
+                      )
+                    )}
+                    {testError && <p className="text-xs text-red-500 mt-2">{testError}</p>}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Plus, Pencil, Trash2, X, Upload, Download, FlaskConical } from 'lucide-react';
+import {
+  applyModeratorOverride,
+  createPersonaId,
+  lookupPersona,
+  MAX_CUSTOM_PERSONAS,
+  type CustomPersona,
+  type ModeratorOverride,
+} from '@/lib/agents/persona-registry';
+import { CustomPersonaSchema } from '@/lib/utils/security';
+import {
+  createPersonaPack,
+  findPackConflicts,
+  mergePersonaPack,
+  parsePersonaPack,
+  type ConflictResolution,
+  type PackConflict,
+  type PersonaPack,
+} from '@/lib/utils/persona-pack';
+import { downloadText } from '@/lib/utils/share-utils';
+import type { Toast } from '@/lib/stores/debate-store';
+import AdvisorAvatar from './AdvisorAvatar';
+
+interface PersonaManagerProps {
+  personas: CustomPersona[];
+  moderatorOverride: ModeratorOverride | null;
+  selectedAdvisors: string[];
+  onChange: (personas: CustomPersona[]) => void;
+  onModeratorOverrideChange: (override: ModeratorOverride | null) => void;
+  onSelectAdvisors: (advisors: string[]) => void;
+  onOpenEditor: () => void; // Opens the prompt editor with its test-drive pane
+  showToast: (message: string, type: Toast['type']) => void;
+}
+
+const EMPTY_DRAFT: Omit<CustomPersona, 'id'> = {
+  name: '',
+  role: '',
+  color: '#5C6BC0',
+  avatar: '🧑‍💼',
+  systemPrompt: '',
+};
+
+export default function PersonaManager({
+  personas,
+  moderatorOverride,
+  selectedAdvisors,
+  onChange,
+  onModeratorOverrideChange,
+  onSelectAdvisors,
+  onOpenEditor,
+  showToast,
+}: PersonaManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null); // Persona being edited ('' = new)
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [pendingImport, setPendingImport] = useState<{ pack: PersonaPack; conflicts: PackConflict[] } | null>(null);
+  // The pack's selection and moderator only replace the user's own when ticked in the import dialog
+  const [useSelection, setUseSelection] = useState(false);
+  const [useModerator, setUseModerator] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (persona?: CustomPersona) => {
+    setEditingId(persona?.id ?? '');
+    setDraft(persona ? { name: persona.name, role: persona.role, color: persona.color, avatar: persona.avatar, systemPrompt: persona.systemPrompt } : EMPTY_DRAFT);
+  };
+
+  const save = () => {
+    const id = editingId || createPersonaId(draft.name, personas.map((p) => p.id));
+    const result = CustomPersonaSchema.safeParse({ ...draft, id });
+    if (!result.success) {
+      showToast(result.error.issues[0]?.message || 'Invalid advisor', 'error');
+      return;
+    }
+
+    onChange(editingId
+      ? personas.map((p) => (p.id === editingId ? result.data : p))
+      : [...personas, result.data]);
+    showToast(`${result.data.name} ${editingId ? 'updated' : 'added to the council'}`, 'success');
+    setEditingId(null);
+  };
+
+  const remove = (persona: CustomPersona) => {
+    if (!confirm(`Remove ${persona.name} from your advisors?`)) return;
+    onChange(personas.filter((p) => p.id !== persona.id));
+    if (editingId === persona.id) setEditingId(null);
+  };
+
+  const exportPack = () => {
+    if (personas.length === 0) {
+      showToast('Add a custom advisor before exporting a pack', 'error');
+      return;
+    }
+
+    try {
+      const pack = createPersonaPack(personas, { defaultAdvisors: selectedAdvisors, moderator: moderatorOverride });
+      downloadText(JSON.stringify(pack, null, 2), `persona_pack_${Date.now()}.json`, 'application/json');
+      showToast(`Exported ${personas.length} advisor${personas.length === 1 ? '' : 's'}`, 'success');
+    } catch (error) {
+      console.error('[PersonaManager] Failed to export persona pack:', error);
+      showToast('Could not export the persona pack', 'error');
+    }
+  };
+
+  const applyImport = (pack: PersonaPack, resolution: ConflictResolution) => {
+    setPendingImport(null);
+    try {
+      const result = mergePersonaPack(pack, personas, resolution);
+      onChange(result.personas);
+      if (useSelection && result.defaultAdvisors) onSelectAdvisors(result.defaultAdvisors);
+      if (useModerator && result.moderator) onModeratorOverrideChange(result.moderator);
+
+      const summary = [
+        result.added && `${result.added} added`,
+        result.replaced && `${result.replaced} replaced`,
+        result.renamed && `${result.renamed} renamed`,
+        result.skipped && `${result.skipped} skipped`,
+      ].filter(Boolean).join(', ');
+      showToast(`Imported ${pack.name ? `"${pack.name}"` : 'persona pack'}: ${summary}`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not import the persona pack', 'error');
+    }
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const pack = parsePersonaPack(await file.text());
+      // Ask first if IDs clash or the pack carries settings that would replace the user's own
+      setUseSelection(false);
+      setUseModerator(false);
+      setPendingImport({ pack, conflicts: findPackConflicts(pack, personas) });
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not read the persona pack', 'error');
+    }
+  };
+
+  const moderator = moderatorOverride ? applyModeratorOverride(moderatorOverride) : null;
+  const hasCustomConflicts = pendingImport?.conflicts.some((conflict) => !conflict.builtIn);
+  const packModerator = pendingImport?.pack.moderator ? applyModeratorOverride(pendingImport.pack.moderator) : null;
+  const getPackAdvisorName = (id: string) =>
+    pendingImport?.pack.personas.find((persona) => persona.id === id)?.name || lookupPersona(id, personas)?.name || id;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-semibold text-muted uppercase tracking-wide">
+          Custom Advisors ({personas.length}/{MAX_CUSTOM_PERSONAS})
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onOpenEditor}
+            className="flex items-center gap-1 text-xs text-muted hover:text-foreground"
+            title="Edit and test-drive advisor prompts"
+          >
+            <FlaskConical className="w-3 h-3" />
+            Tune
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-xs text-muted hover:text-foreground"
+            title="Import a persona pack (.json)"
+          >
+            <Upload className="w-3 h-3" />
+            Import
+          </button>
+          <button
+            onClick={exportPack}
+            className="flex items-center gap-1 text-xs text-muted hover:text-foreground"
+            title="Export your advisors, selection and moderator settings as a persona pack"
+          >
+            <Download className="w-3 h-3" />
+            Export
+          </button>
+          {editingId === null && personas.length < MAX_CUSTOM_PERSONAS && (
+            <button
+              onClick={() => startEditing()}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <Plus className="w-3 h-3" />
+              Add advisor
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // Allow picking the same file again
+            if (file) importPack(file);
+          }}
+        />
+      </div>
+
+      {pendingImport && (
+        <div className="space-y-2 p-3 mb-2 rounded-lg border border-amber-500/40 bg-amber-500/5">
+          <div className="text-sm font-semibold">
+            Import {pendingImport.pack.name ? `"${pendingImport.pack.name}"` : 'persona pack'} ({pendingImport.pack.personas.length} advisor{pendingImport.pack.personas.length === 1 ? '' : 's'})
+          </div>
+          {pendingImport.conflicts.length > 0 && (
+            <div>
+              <div className="text-xs font-medium">
+                {pendingImport.conflicts.length} imported advisor{pendingImport.conflicts.length === 1 ? '' : 's'} clash with existing ones
+              </div>
+              <ul className="text-xs text-muted space-y-0.5">
+                {pendingImport.conflicts.map((conflict) => (
+                  <li key={conflict.id}>
+                    <span className="font-mono">{conflict.id}</span>: {conflict.name} vs. {conflict.existingName}
+                    {conflict.builtIn && ' (built-in, will be renamed unless skipped)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {pendingImport.pack.defaultAdvisors && (
+            <label className="flex items-start gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useSelection}
+                onChange={(e) => setUseSelection(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Replace my advisor selection with the pack&apos;s:{' '}
+                <span className="text-muted">{pendingImport.pack.defaultAdvisors.map(getPackAdvisorName).join(', ')}</span>
+              </span>
+            </label>
+          )}
+          {packModerator && (
+            <label className="flex items-start gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useModerator}
+                onChange={(e) => setUseModerator(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span className="min-w-0">
+                Replace {moderator ? `my customized moderator (${moderator.name})` : 'the moderator'} with the pack&apos;s: {packModerator.avatar} {packModerator.name}
+                {pendingImport.pack.moderator?.systemPrompt && (
+                  <span className="block mt-1 p-2 rounded bg-surface text-muted font-mono whitespace-pre-wrap line-clamp-4">
+                    {pendingImport.pack.moderator.systemPrompt}
+                  </span>
+                )}
+              </span>
+            </label>
+          )}
+          <div className="flex flex-wrap justify-end gap-2">
+            <button onClick={() => setPendingImport(null)} className="btn-secondary px-3 py-1.5 text-sm">
+              Cancel
+            </button>
+            {pendingImport.conflicts.length === 0 ? (
+              <button onClick={() => applyImport(pendingImport.pack, 'rename')} className="btn-primary px-3 py-1.5 text-sm">
+                Import
+              </button>
+            ) : (
+              <>
+                <button onClick={() => applyImport(pendingImport.pack, 'skip')} className="btn-secondary px-3 py-1.5 text-sm">
+                  Skip these
+                </button>
+                <button onClick={() => applyImport(pendingImport.pack, 'rename')} className="btn-secondary px-3 py-1.5 text-sm">
+                  Keep both
+                </button>
+                {hasCustomConflicts && (
+                  <button onClick={() => applyImport(pendingImport.pack, 'replace')} className="btn-primary px-3 py-1.5 text-sm">
+                    Replace mine
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {moderator && (
+        <div className="flex items-center justify-between gap-3 p-2 mb-2 rounded-lg border border-muted text-xs">
+          <span className="truncate">
+            {moderator.avatar} Moderator customized as <span className="font-medium">{moderator.name}</span>
+          </span>
+          <button
+            onClick={() => onModeratorOverrideChange(null)}
+            className="text-muted hover:text-foreground flex-shrink-0"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+
+      {personas.length > 0 && (
+        <div className="space-y-2 mb-2">
+          {personas.map((persona) => (
+            <div key={persona.id} className="flex items-center gap-3 p-2 rounded-lg border border-muted">
+              <AdvisorAvatar agent={persona.id} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate" style={{ color: persona.color }}>{persona.name}</div>
+                <div className="text-[10px] text-muted truncate">{persona.role}</div>
+              </div>
+              <button
+                onClick={() => startEditing(persona)}
+                className="p-1.5 hover:bg-surface rounded-lg transition-colors"
+                title="Edit advisor"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => remove(persona)}
+                className="p-1.5 hover:bg-surface rounded-lg transition-colors text-red-500"
+                title="Remove advisor"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="space-y-2 p-3 rounded-lg border border-primary/30 bg-primary/5">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold">{editingId ? 'Edit advisor' : 'New advisor'}</span>
+            <button onClick={() => setEditingId(null)} className="p-1 hover:bg-surface rounded-lg transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-[1fr_auto_auto] gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name (e.g. Our CFO)"
+              maxLength={50}
+              className="px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+            />
+            <input
+              type="text"
+              value={draft.avatar}
+              onChange={(e) => setDraft({ ...draft, avatar: e.target.value })}
+              title="Avatar emoji"
+              maxLength={16}
+              className="w-14 px-2 py-2 text-sm text-center rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+            />
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+              title="Accent color"
+              className="w-10 h-full rounded-lg border border-muted bg-surface cursor-pointer"
+            />
+          </div>
+          <input
+            type="text"
+            value={draft.role}
+            onChange={(e) => setDraft({ ...draft, role: e.target.value })}
+            placeholder="Role (e.g. Skeptical Enterprise Buyer)"
+            maxLength={100}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none"
+          />
+          <textarea
+            value={draft.systemPrompt}
+            onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+            placeholder="System prompt: who they are, the lens they judge by, how long their answers are"
+            rows={6}
+            maxLength={8000}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-muted bg-surface focus:border-primary outline-none font-mono"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditingId(null)} className="btn-secondary px-3 py-1.5 text-sm">
+              Cancel
+            </button>
+            <button onClick={save} className="btn-primary px-3 py-1.5 text-sm">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-muted mt-1">
+        Add your own voices, like your CFO or a skeptical buyer, and select them below. Packs share them with teammates
+      </p>
+    </div>
+  );
+}
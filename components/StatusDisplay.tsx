@@ -1,17 +1,18 @@
 'use client';
 
 import React from 'react';
-import { Loader2, Brain, Search, CheckCircle2 } from 'lucide-react';
+import { Loader2, Brain, Search, CheckCircle2, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface StatusDisplayProps {
   status: string;
   isDebating: boolean;
   currentRound: number;
+  retryCount?: number; // Upstream call retries so far in this debate
   className?: string;
 }
 
-export default function StatusDisplay({ status, isDebating, currentRound, className }: StatusDisplayProps) {
+export default function StatusDisplay({ status, isDebating, currentRound, retryCount = 0, className }: StatusDisplayProps) {
   if (!isDebating || !status) return null;
 
   // Determine icon based on status content
@@ -22,6 +23,9 @@ export default function StatusDisplay({ status, isDebating, currentRound, classN
     if (status.toLowerCase().includes('consensus') || status.toLowerCase().includes('generating')) {
       return <Brain className="w-4 h-4 text-purple-500 animate-pulse" />;
     }
+    if (status.toLowerCase().includes('retrying') || status.toLowerCase().includes('switching')) {
+      return <RefreshCw className="w-4 h-4 text-amber-500 animate-spin" />;
+    }
     if (status.toLowerCase().includes('complete') || status.toLowerCase().includes('done')) {
       return <CheckCircle2 className="w-4 h-4 text-green-500" />;
     }
@@ -41,6 +45,16 @@ export default function StatusDisplay({ status, isDebating, currentRound, classN
           {status}
         </p>
       </div>
+      {retryCount > 0 && (
+        <div className="flex-shrink-0">
+          <span
+            className="text-xs text-amber-600 dark:text-amber-400 bg-surface px-2 py-1 rounded-full"
+            title="Model calls retried after rate limits or overloads"
+          >
+            {retryCount} {retryCount === 1 ? 'retry' : 'retries'}
+          </span>
+        </div>
+      )}
       {currentRound > 0 && (
         <div className="flex-shrink-0">
           <span className="text-xs text-muted bg-surface px-2 py-1 rounded-full">
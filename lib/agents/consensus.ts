@@ -0,0 +1,112 @@
+/**
+ * Consensus Analysis Schema
+ * Structured output contract for the moderator's consensus check
+ * The same Zod schema validates the response and generates the JSON schema sent to the model
+ */
+
+import { z } from 'zod';
+import type { ConsensusAnalysis } from './types';
+
+export const ConsensusResponseSchema = z.object({
+  consensusReached: z.boolean()
+    .describe('True if enough advisors agree on the fundamental answer'),
+  agreementLevel: z.number().min(0).max(100)
+    .describe('How closely the advisors agree, 0-100'),
+  confidence: z.enum(['low', 'medium', 'high'])
+    .describe('How confident you are in this assessment'),
+  agreements: z.array(z.string())
+    .describe('Key points the advisors agree on'),
+  disagreements: z.array(z.string())
+    .describe('Key points the advisors disagree on'),
+  majorityView: z.string()
+    .describe('One or two sentence summary of the majority position'),
+  minorityViews: z.array(z.object({
+    view: z.string(),
+    advisors: z.array(z.string()).describe('IDs of the advisors holding this view'),
+  })).describe('Positions held by a minority of advisors that are worth noting'),
+  stances: z.array(z.object({
+    advisor: z.string().describe('Advisor ID'),
+    stance: z.enum(['agrees', 'partially_agrees', 'disagrees'])
+      .describe('Stance relative to the majority view'),
+    position: z.string().describe('One sentence summary of this advisor\'s position'),
+  })).describe('One entry per advisor'),
+});
+
+export type ConsensusResponse = z.infer<typeof ConsensusResponseSchema>;
+
+/**
+ * JSON schema for tool use / structured output (draft marker stripped for provider compatibility)
+ */
+export const CONSENSUS_JSON_SCHEMA: Record<string, unknown> = (() => {
+  const schema: Record<string, unknown> = { ...z.toJSONSchema(ConsensusResponseSchema) };
+  delete schema.$schema;
+  return schema;
+})();
+
+/**
+ * Pull a JSON object out of model text (handles code fences and surrounding prose)
+ */
+export function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Parse and validate a consensus response
+ * Returns a readable error describing what was wrong so it can be sent back on retry
+ */
+export function parseConsensusResponse(
+  text: string
+): { success: true; data: ConsensusResponse } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+
+  const parsed = ConsensusResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Convert a validated response into ConsensusAnalysis
+ * Advisor references are matched by ID or display name; unknown advisors are dropped
+ */
+export function toConsensusAnalysis(
+  response: ConsensusResponse,
+  advisors: { id: string; name: string }[]
+): ConsensusAnalysis {
+  const resolveAdvisor = (reference: string): string | undefined => {
+    const normalized = reference.trim().toLowerCase();
+    return advisors.find((a) => a.id === normalized || a.name.toLowerCase() === normalized)?.id;
+  };
+
+  return {
+    consensusReached: response.consensusReached,
+    agreementLevel: response.agreementLevel / 100,
+    confidence: response.confidence,
+    agreements: response.agreements,
+    disagreements: response.disagreements,
+    majorityView: response.majorityView || undefined,
+    minorityViews: response.minorityViews.map((minority) => ({
+      view: minority.view,
+      advisors: minority.advisors.map(resolveAdvisor).filter((id): id is string => !!id),
+    })),
+    stances: response.stances.flatMap((entry) => {
+      const advisor = resolveAdvisor(entry.advisor);
+      return advisor ? [{ advisor, stance: entry.stance, position: entry.position }] : [];
+    }),
+  };
+}
@@ -3,40 +3,216 @@
  * Manages multi-agent debate with consensus detection
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { PERSONAS, ADVISOR_NAMES, type AdvisorName } from './personas';
-import type { Message, DebateState, ConsensusAnalysis, StreamEvent, ResearchResult } from './types';
+import { ADVISOR_NAMES, type AdvisorId } from './personas';
+import { PersonaRegistry, type CustomPersona, type ModeratorOverride } from './persona-registry';
+import type {
+  Message,
+  DebateState,
+  ConsensusAnalysis,
+  ConsensusCheck,
+  StructuredFinalAnswer,
+  StreamEvent,
+  ResearchResult,
+  PreviousDebate,
+  Interruption,
+  DebateCheckpoint,
+} from './types';
+import type { DebateSession } from './sessions';
 import { TavilyClient } from 'tavily';
-import { estimateDebateCost, type CostEstimate } from '../utils/cost-calculator';
+import {
+  estimateCallCost,
+  estimateDebateCost,
+  estimateTokenCost,
+  estimateTokens,
+  expectedOutputTokens,
+  formatCost,
+  getModeRounds,
+  DebateCostTracker,
+  type CostEstimate,
+  type CostPhase,
+  type DebateCostReport,
+  type TokenUsage,
+} from '../utils/cost-calculator';
+import { trimConversationHistory } from '../utils/conversation-history';
+import { detectStall, DEFAULT_AGREEMENT_THRESHOLD, type StallReport } from '../utils/stall-detection';
+import { CONSENSUS_JSON_SCHEMA, parseConsensusResponse, toConsensusAnalysis } from './consensus';
+import { FINAL_ANSWER_JSON_SCHEMA, parseFinalAnswerResponse } from './final-answer';
+import {
+  DEFAULT_CONSENSUS_QUORUM,
+  DEFAULT_SYNTHESIS_STYLE,
+  SYNTHESIS_STYLES,
+  describeConsensusRules,
+  type ConsensusRules,
+  type SynthesisStyle,
+} from './synthesis';
+import {
+  AnthropicProvider,
+  ProviderError,
+  type LLMProvider,
+  type ChatMessage,
+  type CompletionRequest,
+  type CompletionTask,
+  type CompletionResult,
+  type ProviderName,
+} from '../providers';
+import {
+  getModel,
+  getModelForRole,
+  DEFAULT_MODEL_ID,
+  type ModelAssignments,
+  type ModelDefinition,
+  type ModelId,
+} from '../models/registry';
+
+type DebateMode = 'quick' | 'standard' | 'deep' | 'adaptive';
+
+// Consensus analysis attempts before giving up (retries include the validation errors)
+const CONSENSUS_MAX_ATTEMPTS = 2;
+
+// Attempts at extracting the structured action plan from the final answer
+const STRUCTURED_ANSWER_MAX_ATTEMPTS = 2;
+
+// Synthesis samples conservatively; a regeneration samples more freely so it isn't a rewording of the last answer
+const FINAL_ANSWER_TEMPERATURE = 0.5;
+const REGENERATE_TEMPERATURE = 1;
+
+// Attempts per upstream call when the provider reports a transient failure (429, 529, ...)
+const MAX_CALL_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Longest wait between attempts, even if the server's retry-after asks for more
+const RETRY_MAX_DELAY_MS = 30_000;
+
+type TimeoutPhase = 'advisor' | 'consensus' | 'finalAnswer';
+
+// Longest a single upstream call may take per phase before it is abandoned (ms)
+const DEFAULT_PHASE_TIMEOUTS: Record<TimeoutPhase, number> = {
+  advisor: 90_000,
+  consensus: 60_000,
+  finalAnswer: 120_000,
+};
+
+// Server-side overrides for the defaults (ms), e.g. for slow self-hosted models
+const PHASE_TIMEOUT_ENV: Record<TimeoutPhase, string> = {
+  advisor: 'COUNCIL_ADVISOR_TIMEOUT_MS',
+  consensus: 'COUNCIL_CONSENSUS_TIMEOUT_MS',
+  finalAnswer: 'COUNCIL_FINAL_ANSWER_TIMEOUT_MS',
+};
+
+const PHASE_LABELS: Record<TimeoutPhase, string> = {
+  advisor: 'Advisor turn',
+  consensus: 'Consensus analysis',
+  finalAnswer: 'Final answer',
+};
 
-type ClaudeModel = 'claude-opus-4-5' | 'claude-sonnet-4-5' | 'claude-haiku-4';
-type DebateMode = 'quick' | 'standard' | 'deep';
+/**
+ * Phase timeouts set in the environment (unset or invalid values keep the default)
+ */
+function readPhaseTimeoutsFromEnv(): Partial<Record<TimeoutPhase, number>> {
+  const timeouts: Partial<Record<TimeoutPhase, number>> = {};
+  for (const [phase, name] of Object.entries(PHASE_TIMEOUT_ENV) as [TimeoutPhase, string][]) {
+    const value = Number(process.env[name]);
+    if (process.env[name] && Number.isFinite(value) && value > 0) {
+      timeouts[phase] = value;
+    }
+  }
+  return timeouts;
+}
+
+/**
+ * An upstream call outlived its phase timeout (the call is aborted, the debate carries on where it can)
+ */
+class PhaseTimeoutError extends Error {
+  constructor(readonly phase: TimeoutPhase, timeoutMs: number) {
+    super(`${PHASE_LABELS[phase]} timed out after ${timeoutMs / 1000}s`);
+    this.name = 'PhaseTimeoutError';
+  }
+}
+
+/**
+ * A registry model bound to the provider that serves it
+ */
+interface ResolvedModel {
+  key: ModelId;
+  apiId: string;
+  definition: ModelDefinition;
+  provider: LLMProvider;
+}
 
 interface OrchestratorConfig {
-  model?: ClaudeModel;
+  model?: ModelId;
   mode?: DebateMode;
-  selectedAdvisors?: AdvisorName[];
+  selectedAdvisors?: AdvisorId[];
+  customPersonas?: CustomPersona[]; // User-defined advisors that may be selected alongside the built-ins
+  moderatorOverride?: ModeratorOverride; // Replacement name, prompt etc. for the moderator
   enableResearch?: boolean;
   tavilyApiKey?: string; // NEW: Allow passing Tavily key from browser
+  provider?: LLMProvider; // Defaults to the Anthropic API using apiKey
+  providers?: Partial<Record<ProviderName, LLMProvider>>; // Per-backend providers for mixed-model councils
+  modelAssignments?: ModelAssignments; // Per-role overrides of `model`
+  localModelName?: string; // Model served by the OpenAI-compatible backend
+  maxHistoryTokens?: number; // Token budget for earlier conversation turns
+  continueRounds?: number; // Extra rounds run by "Continue Debate"
+  agreementThreshold?: number; // Adaptive mode: agreement level (0-1) that ends the debate
+  maxRounds?: number; // Adaptive mode: round ceiling
+  parallelFirstRound?: boolean; // Run Round 1 concurrently with advisors blind to each other
+  phaseTimeouts?: Partial<Record<TimeoutPhase, number>>; // Per-call timeouts (ms) overriding the defaults and environment
+  fallbackModel?: ModelId; // Advisors switch to this model when theirs keeps failing (e.g. Sonnet -> Haiku)
+  maxCostUsd?: number; // Spending cap: the debate wraps up early rather than exceed it
+  synthesisStyle?: SynthesisStyle; // Shape of the moderator's final answer
+  consensusQuorum?: number; // Advisors who must agree before the moderator declares consensus
+  countPartialAgreement?: boolean; // Whether partial agreement counts toward the quorum (default true)
 }
 
 interface DebateOptions {
   continueDebate?: boolean;
   regenerate?: boolean;
+  previousDebate?: PreviousDebate; // Required for continue/regenerate to reuse earlier work
+  session?: DebateSession; // Live session polled for interruptions and pause requests between advisor turns
+  resumeFrom?: DebateCheckpoint; // Pick a paused debate back up where it stopped
+  signal?: AbortSignal; // Aborted when the client disconnects - cancels in-flight calls and remaining rounds
+}
+
+interface DebateResult {
+  state: DebateState;
+  finalAnswer: string; // Empty when the debate was paused or cancelled
+  paused?: boolean;
+  cancelled?: boolean;
 }
 
 export class CouncilOrchestrator {
-  private client: Anthropic;
   private maxRounds: number = 2;
-  private model: string;
-  private selectedAdvisors: AdvisorName[];
+  private mode: DebateMode;
+  private agreementThreshold: number;
+  private modelKey: ModelId;
+  private moderatorModel: ResolvedModel;
+  private personas: PersonaRegistry;
+  private advisorModels: Record<AdvisorId, ResolvedModel>;
+  private costTracker: DebateCostTracker;
+  private selectedAdvisors: AdvisorId[];
   private enableResearch: boolean;
   private tavilyClient: TavilyClient | null;
   private userEnabledResearch: boolean; // User's preference from settings
+  private maxHistoryTokens: number;
+  private continueRounds: number;
+  private parallelFirstRound: boolean;
+  private phaseTimeouts: Record<TimeoutPhase, number>;
+  private fallbackModel: ResolvedModel | null;
+  private retryCount: number = 0; // Upstream call retries (and fallbacks) so far in this debate
+  private maxCostUsd: number | undefined;
+  private budgetReached: boolean = false;
+  private synthesisTimedOut = false; // The final answer is the timeout stand-in (nothing to structure)
+  private synthesisStyle: SynthesisStyle;
+  private consensusRules: ConsensusRules;
+  private debateId: string = '';
+  private turnCounter: number = 0;
+  private session: DebateSession | null = null;
+  private completedTurns: AdvisorId[] = []; // Advisors who have spoken in the current round
+  private agreementHistory: number[] = [];
+  private signal: AbortSignal | undefined;
+  private partialState: DebateState | null = null; // Latest state, kept so a cancelled debate can be recorded
 
   constructor(apiKey: string, config?: OrchestratorConfig) {
-    this.client = new Anthropic({ apiKey });
-
     // Initialize Tavily client if API key is available (browser-provided or environment)
     const tavilyKey = config?.tavilyApiKey || process.env.TAVILY_API_KEY;
     if (tavilyKey) {
@@ -45,28 +221,61 @@ export class CouncilOrchestrator {
       this.tavilyClient = null;
     }
 
-    // Map frontend model names to API model names
-    const modelMap: Record<ClaudeModel, string> = {
-      'claude-opus-4-5': 'claude-opus-4-20250514',
-      'claude-sonnet-4-5': 'claude-sonnet-4-20250514',
-      'claude-haiku-4': 'claude-3-5-haiku-20241022',
-    };
-
-    this.model = config?.model ? modelMap[config.model] : 'claude-sonnet-4-20250514';
-
-    // Map debate mode to rounds
-    const modeMap: Record<DebateMode, number> = {
-      'quick': 1,
-      'standard': 2,
-      'deep': 3,
+    // Resolve frontend model IDs to API model IDs via the registry, per role
+    this.modelKey = config?.model || DEFAULT_MODEL_ID;
+    const defaultProvider = config?.provider || new AnthropicProvider(apiKey);
+    const resolveModel = (key: ModelId): ResolvedModel => {
+      const definition = getModel(key);
+      return {
+        key,
+        definition,
+        apiId: definition.provider === 'openai-compatible'
+          ? config?.localModelName || process.env.OPENAI_COMPATIBLE_MODEL || definition.apiId
+          : definition.apiId,
+        provider: config?.providers?.[definition.provider] || defaultProvider,
+      };
     };
+    const resolveRole = (role: string) => resolveModel(getModelForRole(this.modelKey, role, config?.modelAssignments));
+    this.personas = new PersonaRegistry(config?.customPersonas, config?.moderatorOverride);
+    this.moderatorModel = resolveRole('moderator');
+    this.advisorModels = Object.fromEntries(
+      this.personas.advisorIds.map((advisor) => [advisor, resolveRole(advisor)])
+    );
+    this.fallbackModel = config?.fallbackModel ? resolveModel(config.fallbackModel) : null;
+    this.costTracker = new DebateCostTracker(this.modelKey);
 
-    this.maxRounds = config?.mode ? modeMap[config.mode] : 2;
+    // Map debate mode to rounds (adaptive: a ceiling, usually ended early)
+    this.mode = config?.mode || 'standard';
+    this.maxRounds = getModeRounds(this.mode, config?.maxRounds);
+    this.agreementThreshold = config?.agreementThreshold ?? DEFAULT_AGREEMENT_THRESHOLD;
     this.selectedAdvisors = config?.selectedAdvisors || [...ADVISOR_NAMES];
+    const unknownAdvisor = this.selectedAdvisors.find((advisor) => !this.personas.isAdvisor(advisor));
+    if (unknownAdvisor) {
+      throw new Error(`Unknown advisor: ${unknownAdvisor}`);
+    }
 
     // Research is only enabled when explicitly requested (keyword-based)
     this.userEnabledResearch = config?.enableResearch === true;
     this.enableResearch = this.userEnabledResearch;
+
+    // Follow-ups carry earlier turns; keep them bounded since every advisor call includes them
+    // (small local models get at most a quarter of their context window)
+    const smallestContext = Math.min(
+      this.moderatorModel.definition.contextWindow,
+      ...this.selectedAdvisors.map((advisor) => this.advisorModels[advisor].definition.contextWindow),
+      ...(this.fallbackModel ? [this.fallbackModel.definition.contextWindow] : [])
+    );
+    this.maxHistoryTokens = Math.min(config?.maxHistoryTokens ?? 2000, Math.floor(smallestContext / 4));
+    this.continueRounds = config?.continueRounds ?? 1;
+    this.parallelFirstRound = config?.parallelFirstRound === true;
+    this.phaseTimeouts = { ...DEFAULT_PHASE_TIMEOUTS, ...readPhaseTimeoutsFromEnv(), ...config?.phaseTimeouts };
+    this.maxCostUsd = config?.maxCostUsd;
+    this.synthesisStyle = config?.synthesisStyle || DEFAULT_SYNTHESIS_STYLE;
+    this.consensusRules = {
+      // A quorum larger than the council could never be met
+      quorum: Math.min(config?.consensusQuorum ?? DEFAULT_CONSENSUS_QUORUM, this.selectedAdvisors.length),
+      countPartialAgreement: config?.countPartialAgreement ?? true,
+    };
   }
 
   /**
@@ -166,9 +375,9 @@ export class CouncilOrchestrator {
   /**
    * Initialize a new debate session
    */
-  createInitialState(userQuestion: string): DebateState {
+  createInitialState(userQuestion: string, conversationHistory: string = ''): DebateState {
     // Create agentResponses only for selected advisors
-    const agentResponses: Record<AdvisorName, string[]> = {} as Record<AdvisorName, string[]>;
+    const agentResponses: Record<AdvisorId, string[]> = {};
     for (const advisor of this.selectedAdvisors) {
       agentResponses[advisor] = [];
     }
@@ -186,29 +395,76 @@ export class CouncilOrchestrator {
       consensusReached: false,
       needsClarification: false,
       agentResponses,
+      conversationHistory: trimConversationHistory(conversationHistory, this.maxHistoryTokens) || undefined,
     };
   }
 
+  /**
+   * Rebuild a debate session from a previous run (continue/regenerate)
+   */
+  restoreState(userQuestion: string, conversationHistory: string, previous: PreviousDebate): DebateState {
+    const state = this.createInitialState(userQuestion, conversationHistory);
+
+    for (const advisor of this.selectedAdvisors) {
+      state.agentResponses[advisor] = [...(previous.agentResponses[advisor] || [])];
+    }
+
+    const completedRounds = Math.max(0, ...Object.values(state.agentResponses).map((r) => r.length));
+    state.currentRound = completedRounds;
+    state.maxRounds = completedRounds;
+    state.finalAnswer = previous.finalAnswer;
+    state.researchResults = previous.researchResults;
+
+    return state;
+  }
+
+  /**
+   * Build the earlier-conversation block shared by advisor and moderator prompts
+   */
+  private buildHistoryContext(state: DebateState): string {
+    if (!state.conversationHistory) {
+      return '';
+    }
+
+    return `This is a follow-up in an ongoing conversation. Earlier in this conversation:\n\n${state.conversationHistory}\n\nBuild on what was already discussed instead of starting over.\n\n`;
+  }
+
+  /**
+   * Build the block listing what the user interjected while the debate was running
+   * Interjections picked up this round must be answered; earlier ones are context
+   */
+  private buildInterruptionContext(state: DebateState): string {
+    if (!state.interruptions || state.interruptions.length === 0) {
+      return '';
+    }
+
+    const current = state.interruptions.filter((i) => i.round === state.currentRound);
+    const earlier = state.interruptions.filter((i) => i.round !== state.currentRound);
+    let context = '';
+
+    if (earlier.length > 0) {
+      context += `\n\nEarlier in this debate the user interjected:\n${earlier.map((i) => `- "${i.content}"`).join('\n')}`;
+    }
+    if (current.length > 0) {
+      context += `\n\n**THE USER JUST INTERRUPTED THE DEBATE:**\n${current.map((i) => `- "${i.content}"`).join('\n')}\nRespond to this directly before continuing your argument.`;
+    }
+
+    return context;
+  }
+
   /**
    * Check if moderator needs clarification from user
    */
-  async checkForClarification(state: DebateState): Promise<{ needsClarification: boolean; question?: string }> {
+  async checkForClarification(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<{ needsClarification: boolean; question?: string }> {
     const userQuestion = state.messages.find((m) => m.role === 'user')?.content || '';
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 500,
-      system: [
-        {
-          type: "text",
-          text: PERSONAS.moderator.systemPrompt,
-          cache_control: { type: "ephemeral" }
-        }
-      ],
-      messages: [
-        {
-          role: 'user',
-          content: `A user has asked: "${userQuestion}"
+    const response = await this.moderatorModel.provider.complete(this.buildRequest(this.moderatorModel, this.personas.moderator.systemPrompt, 500, [
+      {
+        role: 'user',
+        content: `A user has asked: "${userQuestion}"
 
 Analyze this question. Is it clear enough for the advisors to provide valuable, specific advice?
 
@@ -225,11 +481,12 @@ Examples of questions that need clarification:
 Examples of clear questions:
 - "I'm a software engineer with $50k savings. Should I quit my job to build a SaaS product for project management?"
 - "What's the best way to validate a business idea before investing significant time and money?"`,
-        },
-      ],
-    });
+      },
+    ], { speaker: 'moderator', task: 'clarification' }));
 
-    const content = response.content[0].type === 'text' ? response.content[0].text : '';
+    this.recordUsage(response.usage, 'clarification', this.moderatorModel, onEvent);
+
+    const content = response.text;
 
     if (content.startsWith('NEEDS_CLARIFICATION:')) {
       return {
@@ -245,13 +502,15 @@ Examples of clear questions:
    * Get response from a single advisor
    */
   async getAdvisorResponse(
-    advisorName: AdvisorName,
+    advisorName: AdvisorId,
     state: DebateState,
     onStream?: (content: string) => void,
     onEvent?: (event: StreamEvent) => void
   ): Promise<{ response: string }> {
-    const persona = PERSONAS[advisorName];
+    const persona = this.personas.resolve(advisorName);
     const userQuestion = state.messages.find((m) => m.role === 'user')?.content || '';
+    const historyContext = this.buildHistoryContext(state);
+    const interruptionContext = this.buildInterruptionContext(state);
 
     // Build research context from state (research happened BEFORE debate)
     const researchContext = state.researchResults && state.researchResults.length > 0
@@ -260,58 +519,74 @@ Examples of clear questions:
         ).join('\n\n')}\n\nIMPORTANT: When using research findings, cite them like "[1]" or "according to [2]"`
       : '';
 
-    // Build context from previous rounds
+    // Build context from previous rounds (runDebateRound has already advanced currentRound)
+    const advisorContext = this.buildAdvisorContext(state, advisorName);
     let contextMessages: { role: 'user' | 'assistant'; content: string }[] = [
       {
         role: 'user',
-        content: `You are participating in an AI council debate. The user has asked:\n\n"${userQuestion}"${researchContext}\n\n${
-          state.currentRound === 0
+        content: `You are participating in an AI council debate. ${historyContext}The user has asked:\n\n"${userQuestion}"${researchContext}${interruptionContext}\n\n${
+          !advisorContext
             ? 'This is Round 1. Provide your initial perspective on this question based on your expertise and thinking framework.' + (researchContext ? ' Use the research findings above and cite sources with [1], [2], etc.' : '')
-            : `This is Round ${state.currentRound + 1}. Here's what other advisors have said:\n\n${this.buildAdvisorContext(
-                state,
-                advisorName
-              )}\n\nProvide your response, addressing points of agreement or disagreement with other advisors if relevant.${researchContext ? ' Continue citing research sources with [1], [2], etc.' : ''}`
+            : `This is Round ${Math.max(state.currentRound, 1)}. Here's what other advisors have said:\n\n${advisorContext}\n\nProvide your response, addressing points of agreement or disagreement with other advisors if relevant.${researchContext ? ' Continue citing research sources with [1], [2], etc.' : ''}`
         }`,
       },
     ];
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 250,
-      // Enable prompt caching on system prompt (saves 90% on repeated calls)
-      system: [
-        {
-          type: "text",
-          text: persona.systemPrompt,
-          cache_control: { type: "ephemeral" }
-        }
-      ],
-      messages: contextMessages,
-      stream: !!onStream,
+    // A call that already streamed text can't be retried without duplicating it on screen
+    let streamed = false;
+    const onChunk = onStream && ((chunk: string) => {
+      streamed = true;
+      onStream(chunk);
     });
 
-    if (onStream) {
-      let fullContent = '';
-      // @ts-ignore - stream types
-      for await (const event of response) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-          const text = event.delta.text;
-          fullContent += text;
-          onStream(text);
-        }
+    const callModel = (target: ResolvedModel) => {
+      const request = this.buildRequest(target, persona.systemPrompt, 250, contextMessages, { speaker: advisorName, task: 'advisor' });
+      return this.callWithRetry(
+        'advisor',
+        target,
+        (signal) => onChunk
+          ? target.provider.stream({ ...request, signal }, onChunk)
+          : target.provider.complete({ ...request, signal }),
+        onEvent,
+        { agent: advisorName, canRetry: () => !streamed }
+      );
+    };
+
+    let advisorModel = this.advisorModels[advisorName];
+    let result: CompletionResult;
+    try {
+      result = await callModel(advisorModel);
+    } catch (error) {
+      // Out of retries on a struggling model - a lighter model's answer beats losing the advisor
+      const fallback = this.fallbackModel;
+      if (!fallback || fallback.key === advisorModel.key || streamed || this.isCancelled
+        || !(error instanceof ProviderError) || !error.retryable) {
+        throw error;
       }
-      return { response: fullContent };
-    } else {
-      // @ts-ignore
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
-      return { response: responseText };
+
+      this.retryCount++;
+      console.warn(`[Council] ${persona.name} falling back to ${fallback.key}: ${error.message}`);
+      onEvent?.({
+        type: 'retry',
+        agent: advisorName,
+        content: `${persona.name} is switching to ${fallback.definition.displayName} after repeated failures...`,
+        data: { model: advisorModel.key, fallbackModel: fallback.key, status: error.status },
+        retryCount: this.retryCount,
+        timestamp: Date.now(),
+      });
+
+      advisorModel = fallback;
+      result = await callModel(advisorModel);
     }
+
+    this.recordUsage(result.usage, 'advisor', advisorModel, onEvent, advisorName);
+    return { response: result.text };
   }
 
   /**
    * Build context from other advisors' responses
    */
-  private buildAdvisorContext(state: DebateState, currentAdvisor: AdvisorName): string {
+  private buildAdvisorContext(state: DebateState, currentAdvisor: AdvisorId): string {
     const otherAdvisors = this.selectedAdvisors.filter((name) => name !== currentAdvisor);
     let context = '';
 
@@ -319,7 +594,7 @@ Examples of clear questions:
       const responses = state.agentResponses[advisor];
       if (responses && responses.length > 0) {
         const latestResponse = responses[responses.length - 1];
-        context += `**${PERSONAS[advisor].name}**: ${latestResponse}\n\n`;
+        context += `**${this.personas.resolve(advisor).name}**: ${latestResponse}\n\n`;
       }
     }
 
@@ -329,340 +604,1169 @@ Examples of clear questions:
   /**
    * Analyze consensus among advisors
    */
-  async analyzeConsensus(state: DebateState): Promise<ConsensusAnalysis> {
+  async analyzeConsensus(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<ConsensusAnalysis> {
     // Get the latest response from each advisor
     const latestResponses = this.selectedAdvisors.map((name) => {
       const responses = state.agentResponses[name];
       return {
-        advisor: PERSONAS[name].name,
+        id: name,
+        advisor: this.personas.resolve(name).name,
         response: responses && responses.length > 0 ? responses[responses.length - 1] : '',
       };
     }).filter((r) => r.response.length > 0);
 
-    if (latestResponses.length < 3) {
+    // Too few advisors answered to reach the quorum: nothing to judge, which isn't the same as disagreement
+    if (latestResponses.length < this.consensusRules.quorum) {
       return {
         consensusReached: false,
         agreementLevel: 0,
+        confidence: 'low',
         agreements: [],
         disagreements: [],
+        minorityViews: [],
+        stances: [],
+        analysisFailed: true,
       };
     }
 
     const userQuestion = state.messages.find((m) => m.role === 'user')?.content || '';
+    const advisors = this.selectedAdvisors.map((id) => ({ id, name: this.personas.resolve(id).name }));
+    const useTool = this.moderatorModel.definition.capabilities.toolUse;
 
     const analysisPrompt = `Analyze the following advisor responses to determine if consensus has been reached.
 
-User Question: "${userQuestion}"
+${this.buildHistoryContext(state)}User Question: "${userQuestion}"
 
 Advisor Responses:
-${latestResponses.map((r) => `${r.advisor}:\n${r.response}\n`).join('\n---\n')}
+${latestResponses.map((r) => `${r.advisor} (id: ${r.id}):\n${r.response}\n`).join('\n---\n')}
 
 Determine:
-1. Is there consensus on the core answer/recommendation? (3+ advisors must agree on the fundamental answer)
+1. Is there consensus on the core answer/recommendation? (${describeConsensusRules(this.consensusRules)})
 2. What are the key points of agreement?
 3. What are the key points of disagreement?
 4. What is the majority view?
-5. Are there minority views worth noting?
-
-Respond in this format:
-CONSENSUS: [YES/NO]
-AGREEMENT_LEVEL: [0-100]
-AGREEMENTS:
-- [point 1]
-- [point 2]
-DISAGREEMENTS:
-- [point 1]
-- [point 2]
-MAJORITY_VIEW: [summary]
-MINORITY_VIEWS: [summary if any]`;
-
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 1000,
-      system: [
-        {
-          type: "text",
-          text: PERSONAS.moderator.systemPrompt,
-          cache_control: { type: "ephemeral" }
-        }
-      ],
-      messages: [{ role: 'user', content: analysisPrompt }],
-    });
+5. Are there minority views worth noting, and who holds them?
+6. Where does each advisor stand relative to the majority view?
+
+${useTool
+  ? 'Report your analysis with the report_consensus tool (advisors are referenced by id).'
+  : `Respond with only a JSON object matching this schema (advisors are referenced by id):\n${JSON.stringify(CONSENSUS_JSON_SCHEMA)}`}`;
+
+    const messages: ChatMessage[] = [{ role: 'user', content: analysisPrompt }];
+    const request = this.buildRequest(this.moderatorModel, this.personas.moderator.systemPrompt, 1000, messages, { speaker: 'moderator', task: 'consensus' });
+    if (useTool) {
+      request.jsonSchema = {
+        name: 'report_consensus',
+        description: 'Report the consensus analysis of the advisor responses',
+        schema: CONSENSUS_JSON_SCHEMA,
+      };
+    }
 
-    const content = response.content[0].type === 'text' ? response.content[0].text : '';
-
-    // Parse the response
-    const consensusMatch = content.match(/CONSENSUS:\s*(YES|NO)/i);
-    const agreementLevelMatch = content.match(/AGREEMENT_LEVEL:\s*(\d+)/);
-    const agreementsMatch = content.match(/AGREEMENTS:([\s\S]*?)(?=DISAGREEMENTS:|$)/);
-    const disagreementsMatch = content.match(/DISAGREEMENTS:([\s\S]*?)(?=MAJORITY_VIEW:|$)/);
-    const majorityViewMatch = content.match(/MAJORITY_VIEW:([\s\S]*?)(?=MINORITY_VIEWS:|$)/);
-    const minorityViewsMatch = content.match(/MINORITY_VIEWS:([\s\S]*?)$/);
-
-    const parseList = (text: string): string[] => {
-      return text
-        .split('\n')
-        .filter((line) => line.trim().startsWith('-'))
-        .map((line) => line.trim().substring(1).trim());
-    };
+    // Retry with the validation errors so formatting drift doesn't silently read as "no consensus"
+    let lastError = '';
+    for (let attempt = 1; attempt <= CONSENSUS_MAX_ATTEMPTS; attempt++) {
+      let response;
+      try {
+        response = await this.callWithRetry(
+          'consensus',
+          this.moderatorModel,
+          (signal) => this.moderatorModel.provider.complete({ ...request, messages: [...messages], signal }),
+          onEvent
+        );
+      } catch (error) {
+        if (!(error instanceof PhaseTimeoutError)) throw error;
+        lastError = error.message;
+        console.warn(`[Council] ${lastError} (attempt ${attempt})`);
+        continue;
+      }
+      this.recordUsage(response.usage, 'consensus', this.moderatorModel, onEvent);
+
+      const parsed = parseConsensusResponse(response.text);
+      if (parsed.success) {
+        return this.applyQuorum(toConsensusAnalysis(parsed.data, advisors));
+      }
+
+      lastError = parsed.error;
+      console.warn(`[Council] Invalid consensus analysis (attempt ${attempt}): ${lastError}`);
+      messages.push(
+        { role: 'assistant', content: response.text || '(empty response)' },
+        { role: 'user', content: `That response was invalid: ${lastError}\nRespond again with only the corrected JSON object.` }
+      );
+    }
 
     return {
-      consensusReached: consensusMatch ? consensusMatch[1].toUpperCase() === 'YES' : false,
-      agreementLevel: agreementLevelMatch ? parseInt(agreementLevelMatch[1]) / 100 : 0,
-      agreements: agreementsMatch ? parseList(agreementsMatch[1]) : [],
-      disagreements: disagreementsMatch ? parseList(disagreementsMatch[1]) : [],
-      majorityView: majorityViewMatch ? majorityViewMatch[1].trim() : undefined,
-      minorityViews: minorityViewsMatch ? [minorityViewsMatch[1].trim()] : undefined,
+      consensusReached: false,
+      agreementLevel: 0,
+      confidence: 'low',
+      agreements: [],
+      disagreements: [],
+      minorityViews: [],
+      stances: [],
+      analysisFailed: true,
     };
   }
 
+  /**
+   * Hold the moderator to the quorum: consensus needs enough advisors whose stance agrees
+   * (only ever withdraws consensus; an analysis without stances is taken at its word)
+   */
+  private applyQuorum(analysis: ConsensusAnalysis): ConsensusAnalysis {
+    if (!analysis.consensusReached || analysis.stances.length === 0) {
+      return analysis;
+    }
+
+    const agreeing = analysis.stances.filter((entry) =>
+      entry.stance === 'agrees' || (this.consensusRules.countPartialAgreement && entry.stance === 'partially_agrees')
+    ).length;
+    if (agreeing >= this.consensusRules.quorum) {
+      return analysis;
+    }
+
+    return { ...analysis, consensusReached: false };
+  }
+
   /**
    * Generate final consensus answer
    */
-  async generateFinalAnswer(state: DebateState, consensus: ConsensusAnalysis): Promise<string> {
+  async generateFinalAnswer(
+    state: DebateState,
+    consensus: ConsensusAnalysis,
+    onEvent?: (event: StreamEvent) => void,
+    previousAnswer?: string
+  ): Promise<string> {
+    // Interjections queued until now make it into the answer; later ones are refused by the session
+    this.session?.beginWrapUp();
+    this.synthesisTimedOut = false;
+    this.pickUpInterruptions(state, onEvent);
     const userQuestion = state.messages.find((m) => m.role === 'user')?.content || '';
 
     const latestResponses = this.selectedAdvisors.map((name) => {
       const responses = state.agentResponses[name];
       return {
-        advisor: PERSONAS[name].name,
+        advisor: this.personas.resolve(name).name,
         response: responses && responses.length > 0 ? responses[responses.length - 1] : '',
       };
     }).filter((r) => r.response.length > 0);
 
     const finalPrompt = `Synthesize a final answer to the user's question based on the council's debate.
 
-User Question: "${userQuestion}"
+${this.buildHistoryContext(state)}User Question: "${userQuestion}"${
+  state.interruptions && state.interruptions.length > 0
+    ? `\n\nThe user interjected during the debate (make sure the answer addresses these):\n${state.interruptions.map((i) => `- "${i.content}"`).join('\n')}`
+    : ''
+}
 
 Consensus Analysis:
 - Consensus Reached: ${consensus.consensusReached ? 'Yes' : 'No'}
 - Agreement Level: ${Math.round(consensus.agreementLevel * 100)}%
 - Key Agreements: ${consensus.agreements.join('; ')}
-- Key Disagreements: ${consensus.disagreements.join('; ')}
+- Key Disagreements: ${consensus.disagreements.join('; ')}${
+  consensus.majorityView ? `\n- Majority View: ${consensus.majorityView}` : ''
+}${
+  consensus.minorityViews.length > 0
+    ? `\n- Minority Views: ${consensus.minorityViews.map((m) => `${m.view} (${m.advisors.map((a) => this.personas.get(a)?.name || a).join(', ')})`).join('; ')}`
+    : ''
+}
 
 Advisor Perspectives:
 ${latestResponses.map((r) => `${r.advisor}:\n${r.response}\n`).join('\n---\n')}
 
-Provide a clear, actionable final answer that:
-1. Directly answers the user's question
-2. Incorporates the collective wisdom of the council
-3. Highlights key insights and recommendations
-4. Notes any important caveats or alternative perspectives
-5. Is structured and easy to follow
+${SYNTHESIS_STYLES[this.synthesisStyle].instructions}
 
 ${
   consensus.consensusReached
     ? 'The advisors have reached consensus, so present a unified recommendation.'
     : 'The advisors have not fully agreed, so present the majority view while acknowledging alternative perspectives.'
+}${
+  previousAnswer
+    ? `\n\nThe user asked for a different take than this earlier synthesis. Use a fresh structure and emphasis rather than rephrasing it:\n\n${previousAnswer}`
+    : ''
 }`;
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 1500,
-      system: [
-        {
-          type: "text",
-          text: PERSONAS.moderator.systemPrompt,
-          cache_control: { type: "ephemeral" }
-        }
-      ],
-      messages: [{ role: 'user', content: finalPrompt }],
-    });
+    const request = this.buildRequest(this.moderatorModel, this.personas.moderator.systemPrompt, 1500, [{ role: 'user', content: finalPrompt }], { speaker: 'moderator', task: 'final_answer' });
+    request.temperature = previousAnswer ? REGENERATE_TEMPERATURE : FINAL_ANSWER_TEMPERATURE;
+    let response;
+    try {
+      response = await this.callWithRetry(
+        'finalAnswer',
+        this.moderatorModel,
+        (signal) => this.moderatorModel.provider.complete({ ...request, signal }),
+        onEvent
+      );
+    } catch (error) {
+      // The rounds are already paid for: a hung synthesis shouldn't throw the whole debate away
+      if (!(error instanceof PhaseTimeoutError)) throw error;
+      console.warn(`[Council] ${error.message}; falling back to the consensus summary`);
+      this.synthesisTimedOut = true;
+      return this.buildTimedOutAnswer(consensus);
+    }
+
+    this.recordUsage(response.usage, 'final_answer', this.moderatorModel, onEvent);
 
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return response.text;
   }
 
   /**
-   * Run a complete debate round with SEQUENTIAL advisor responses
-   * Advisors take turns so they can see and respond to each other's arguments
+   * Stand-in final answer when synthesis times out, built from the last consensus analysis
    */
-  async runDebateRound(
+  private buildTimedOutAnswer(consensus: ConsensusAnalysis): string {
+    const sections = ['_The moderator timed out before writing the final answer. This is the council\'s position from the last consensus check - regenerate to try the synthesis again._'];
+
+    if (consensus.analysisFailed) {
+      return sections[0];
+    }
+    if (consensus.majorityView) {
+      sections.push(`**Majority view:** ${consensus.majorityView}`);
+    }
+    if (consensus.agreements.length > 0) {
+      sections.push(`**Where the advisors agree:**\n${consensus.agreements.map((a) => `- ${a}`).join('\n')}`);
+    }
+    if (consensus.disagreements.length > 0) {
+      sections.push(`**Where they differ:**\n${consensus.disagreements.map((d) => `- ${d}`).join('\n')}`);
+    }
+    if (consensus.minorityViews.length > 0) {
+      sections.push(`**Minority views:**\n${consensus.minorityViews.map((m) => `- ${m.view} (${m.advisors.map((a) => this.personas.get(a)?.name || a).join(', ')})`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Extract the typed action plan from the final answer
+   * Best effort: the markdown answer stands on its own, so failures return undefined instead of throwing
+   */
+  async structureFinalAnswer(
     state: DebateState,
+    consensus: ConsensusAnalysis,
+    finalAnswer: string,
     onEvent?: (event: StreamEvent) => void
-  ): Promise<DebateState> {
-    const newState = { ...state };
-    newState.currentRound += 1;
+  ): Promise<StructuredFinalAnswer | undefined> {
+    const userQuestion = state.messages.find((m) => m.role === 'user')?.content || '';
+    const useTool = this.moderatorModel.definition.capabilities.toolUse;
 
-    let successfulResponses = 0;
+    const structurePrompt = `Turn the council's final answer below into a structured action plan.
 
-    // Run advisors SEQUENTIALLY so they can respond to each other (like a real debate)
-    for (const advisorName of this.selectedAdvisors) {
-      try {
-        // Emit status update
-        const advisorDisplayName = PERSONAS[advisorName as keyof typeof PERSONAS]?.name || advisorName;
-        onEvent?.({
-          type: 'status',
-          content: `${advisorDisplayName} is thinking...`,
-          timestamp: Date.now(),
-        });
+User Question: "${userQuestion}"
 
-        // Emit start event
-        onEvent?.({
-          type: 'agent_start',
-          agent: advisorName,
-          timestamp: Date.now(),
-        });
+Consensus Reached: ${consensus.consensusReached ? 'Yes' : 'No'} (agreement level ${Math.round(consensus.agreementLevel * 100)}%)
 
-        // Get response with streaming - advisor sees all previous responses in this round
-        const result = await this.getAdvisorResponse(
-          advisorName,
-          newState, // Pass updated state so advisor can see previous responses
-          (chunk) => {
-            onEvent?.({
-              type: 'agent_response',
-              agent: advisorName,
-              content: chunk,
-              timestamp: Date.now(),
-            });
-          },
-          onEvent
-        );
+Final Answer:
+${finalAnswer}
 
-        // Add response to state immediately so next advisor can see it
-        if (result.response) {
-          newState.agentResponses[advisorName].push(result.response);
-          successfulResponses++;
-        }
+Extract:
+1. The recommendation, in one or two sentences
+2. How confident the council is in it (low, medium or high), given the agreement level
+3. The action steps in order, each with an owner ("You" when it falls to the user) and a timeframe
+4. The main risks, each with a mitigation
+5. Open questions the user still needs to answer
 
-        // Emit complete event
-        onEvent?.({
-          type: 'agent_complete',
-          agent: advisorName,
-          timestamp: Date.now(),
-        });
+Only use what the answer supports; leave a list empty rather than inventing items.
 
+${useTool
+  ? 'Report the plan with the report_action_plan tool.'
+  : `Respond with only a JSON object matching this schema:\n${JSON.stringify(FINAL_ANSWER_JSON_SCHEMA)}`}`;
+
+    const messages: ChatMessage[] = [{ role: 'user', content: structurePrompt }];
+    const request = this.buildRequest(this.moderatorModel, this.personas.moderator.systemPrompt, 1000, messages, { speaker: 'moderator', task: 'structured_answer' });
+    if (useTool) {
+      request.jsonSchema = {
+        name: 'report_action_plan',
+        description: 'Report the final answer as a structured action plan',
+        schema: FINAL_ANSWER_JSON_SCHEMA,
+      };
+    }
+
+    for (let attempt = 1; attempt <= STRUCTURED_ANSWER_MAX_ATTEMPTS; attempt++) {
+      let response;
+      try {
+        response = await this.callWithRetry(
+          'finalAnswer',
+          this.moderatorModel,
+          (signal) => this.moderatorModel.provider.complete({ ...request, messages: [...messages], signal }),
+          onEvent
+        );
       } catch (error) {
-        // Graceful error handling - don't crash entire debate
-        console.error(`Error from ${advisorName}:`, error);
+        if (this.isCancelled) return undefined;
+        console.warn(`[Council] Structured answer failed (attempt ${attempt}):`, error instanceof Error ? error.message : error);
+        continue;
+      }
+      this.recordUsage(response.usage, 'structured_answer', this.moderatorModel, onEvent);
 
-        onEvent?.({
-          type: 'error',
-          content: `${advisorName} failed to respond: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          timestamp: Date.now(),
-        });
+      const parsed = parseFinalAnswerResponse(response.text);
+      if (parsed.success) {
+        return parsed.data;
       }
-    }
 
-    // Check if we have enough responses to continue
-    if (successfulResponses < 2) {
-      throw new Error(`Insufficient advisor responses: only ${successfulResponses} succeeded`);
+      console.warn(`[Council] Invalid structured answer (attempt ${attempt}): ${parsed.error}`);
+      messages.push(
+        { role: 'assistant', content: response.text || '(empty response)' },
+        { role: 'user', content: `That response was invalid: ${parsed.error}\nRespond again with only the corrected JSON object.` }
+      );
     }
 
-    return newState;
+    return undefined;
   }
 
   /**
-   * Run the complete council debate
+   * Send the markdown answer as soon as it's ready, then re-send it with its structured plan
+   * as `data` (a second `final_answer` with the same messageId; skipped if extraction fails)
    */
-  async runCouncilDebate(
-    userQuestion: string,
-    conversationHistory: string = '',
-    onEvent?: (event: StreamEvent) => void,
-    options?: DebateOptions
-  ): Promise<{ state: DebateState; finalAnswer: string }> {
-    let state = this.createInitialState(userQuestion);
-
-    // Emit cost estimate before starting debate
-    const modelKey = this.model.includes('opus') ? 'claude-opus-4-5' as const :
-                     this.model.includes('haiku') ? 'claude-haiku-4' as const :
-                     'claude-sonnet-4-5' as const;
-
-    const modeKey = this.maxRounds === 1 ? 'quick' as const :
-                    this.maxRounds === 3 ? 'deep' as const :
-                    'standard' as const;
-
-    const costEstimate = estimateDebateCost(
-      modelKey,
-      modeKey,
-      this.selectedAdvisors.length,
-      this.enableResearch
-    );
+  private async publishFinalAnswer(
+    state: DebateState,
+    consensus: ConsensusAnalysis,
+    finalAnswer: string,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<void> {
+    state.finalAnswer = finalAnswer;
+    const messageId = this.nextMessageId('final', state.currentRound);
 
     onEvent?.({
-      type: 'cost_estimate',
-      data: costEstimate,
+      type: 'final_answer',
+      messageId,
+      content: finalAnswer,
       timestamp: Date.now(),
     });
+    if (this.synthesisTimedOut) return;
 
-    // CLARIFICATION CHECK DISABLED FOR NOW
-    // Reason: Too aggressive - blocks valid questions like "what is the best kind of cheese?"
-    // TODO: Re-enable with better heuristics for open source launch
-    //
-    // if (!conversationHistory || conversationHistory.trim().length === 0) {
-    //   onEvent?.({ type: 'moderator_analysis', content: 'Analyzing question...', timestamp: Date.now() });
-    //   const clarification = await this.checkForClarification(state);
-    //
-    //   if (clarification.needsClarification) {
-    //     onEvent?.({
-    //       type: 'clarification_needed',
-    //       content: clarification.question,
-    //       timestamp: Date.now(),
-    //     });
-    //
-    //     return {
-    //       state: { ...state, needsClarification: true, clarificationQuestion: clarification.question },
-    //       finalAnswer: clarification.question || '',
-    //     };
-    //   }
-    // }
+    onEvent?.({
+      type: 'status',
+      content: 'Drafting the action plan...',
+      timestamp: Date.now(),
+    });
+    state.structuredAnswer = await this.structureFinalAnswer(state, consensus, finalAnswer, onEvent);
 
-    // PERFORM RESEARCH FIRST (before advisors respond)
-    const shouldResearch = this.shouldActivateResearch(userQuestion);
-    if (shouldResearch) {
+    if (state.structuredAnswer) {
       onEvent?.({
-        type: 'status',
-        content: 'Performing web research...',
+        type: 'final_answer',
+        messageId,
+        content: finalAnswer,
+        data: state.structuredAnswer,
         timestamp: Date.now(),
       });
-      const researchResults = await this.performResearch(userQuestion, onEvent);
+    }
+  }
 
-      if (researchResults && researchResults.length > 0) {
-        // Store research in state so ALL advisors can see it
-        state.researchResults = researchResults;
+  /**
+   * Run a complete debate round
+   * Advisors take turns so they can see and respond to each other's arguments;
+   * with parallelFirstRound, Round 1 runs everyone at once, blind to each other
+   */
+  async runDebateRound(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void,
+    resumeTurns?: AdvisorId[]
+  ): Promise<DebateState> {
+    const newState = { ...state };
 
-        // Emit research results event with sources
-        onEvent?.({
-          type: 'research_results',
-          content: `Found ${researchResults.length} relevant sources`,
-          data: { sources: researchResults },
-          timestamp: Date.now(),
-        });
-      }
+    // A resumed round keeps its number and skips advisors who already spoke (assumed to have succeeded)
+    if (resumeTurns) {
+      this.completedTurns = [...resumeTurns];
+    } else {
+      newState.currentRound += 1;
+      this.completedTurns = [];
     }
 
-    // Run debate rounds
-    for (let round = 0; round < this.maxRounds; round++) {
+    let successfulResponses = this.completedTurns.length;
+
+    if (this.parallelFirstRound && newState.currentRound === 1 && this.completedTurns.length === 0) {
+      // Once dispatched, the parallel batch can't be paused until every advisor finishes, so check first
+      // (returning the round unstarted so a resume runs it from the beginning)
+      if (this.session?.isPauseRequested || this.isCancelled) {
+        return state;
+      }
+      if (this.checkBudget(newState, this.selectedAdvisors, onEvent)) {
+        return newState;
+      }
+
+      this.pickUpInterruptions(newState, onEvent);
+
       onEvent?.({
         type: 'status',
-        content: `Round ${round + 1} of ${this.maxRounds}`,
+        content: 'Advisors are forming independent opinions...',
         timestamp: Date.now(),
       });
 
-      onEvent?.({
-        type: 'moderator_analysis',
-        content: `Starting Round ${round + 1}...`,
-        timestamp: Date.now(),
-      });
+      // Snapshot so no advisor sees another's Round 1 answer (avoids anchoring on the first speaker)
+      const blindState: DebateState = {
+        ...newState,
+        agentResponses: Object.fromEntries(
+          Object.entries(newState.agentResponses).map(([advisor, responses]) => [advisor, [...responses]])
+        ),
+      };
 
-      state = await this.runDebateRound(state, onEvent);
+      const responses = await Promise.all(
+        this.selectedAdvisors.map((advisorName) => this.runAdvisorTurn(advisorName, blindState, onEvent))
+      );
 
-      // Check for consensus after round 2
-      if (round >= 1) {
-        onEvent?.({
-          type: 'status',
-          content: 'Checking for consensus...',
-          timestamp: Date.now(),
-        });
+      // Record in selection order so later rounds see a stable ordering
+      responses.forEach((response, i) => {
+        if (response) {
+          newState.agentResponses[this.selectedAdvisors[i]].push(response);
+          successfulResponses++;
+        }
+      });
+      this.completedTurns = [...this.selectedAdvisors];
+      this.saveCheckpoint(newState);
+    } else {
+      // Run advisors SEQUENTIALLY so they can respond to each other (like a real debate)
+      for (const advisorName of this.selectedAdvisors) {
+        if (this.completedTurns.includes(advisorName)) continue;
+
+        // A pause takes effect between turns, never mid-response; cancellation skips the rest
+        if (this.session?.isPauseRequested || this.isCancelled) {
+          // Nobody has spoken yet: hand back the round unstarted so a resume doesn't skip it
+          return this.completedTurns.length > 0 ? newState : state;
+        }
+
+        // Stop before a turn the budget can't cover (the wrap-up works with what was said)
+        if (this.checkBudget(newState, [advisorName], onEvent)) {
+          return newState;
+        }
+
+        // Interjections queued since the last turn go to the next advisor to speak
+        this.pickUpInterruptions(newState, onEvent);
+
+        // Emit status update
+        const advisorDisplayName = this.personas.get(advisorName)?.name || advisorName;
+        onEvent?.({
+          type: 'status',
+          content: `${advisorDisplayName} is thinking...`,
+          timestamp: Date.now(),
+        });
+
+        // Advisor sees all previous responses in this round
+        const response = await this.runAdvisorTurn(advisorName, newState, onEvent);
+
+        // Add response to state immediately so next advisor can see it
+        if (response) {
+          newState.agentResponses[advisorName].push(response);
+          successfulResponses++;
+        }
+        this.completedTurns.push(advisorName);
+        this.saveCheckpoint(newState);
+      }
+    }
+
+    // Check if we have enough responses to continue (a budget stop wraps up with whatever there is)
+    if (successfulResponses < 2 && !this.budgetReached) {
+      throw new Error(`Insufficient advisor responses: only ${successfulResponses} succeeded`);
+    }
+
+    return newState;
+  }
+
+  /**
+   * Stream one advisor's turn as agent_start / agent_response / agent_complete events
+   * Returns null if the advisor failed (the debate carries on without them)
+   */
+  private async runAdvisorTurn(
+    advisorName: AdvisorId,
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<string | null> {
+    try {
+      // Every event of this turn carries the same ID so interleaved streams stay separate
+      const messageId = this.nextMessageId(advisorName, state.currentRound);
+
+      // Emit start event
+      onEvent?.({
+        type: 'agent_start',
+        agent: advisorName,
+        messageId,
+        timestamp: Date.now(),
+      });
+
+      // Get response with streaming
+      const result = await this.getAdvisorResponse(
+        advisorName,
+        state,
+        (chunk) => {
+          onEvent?.({
+            type: 'agent_response',
+            agent: advisorName,
+            messageId,
+            content: chunk,
+            timestamp: Date.now(),
+          });
+        },
+        onEvent
+      );
+
+      // Emit complete event
+      onEvent?.({
+        type: 'agent_complete',
+        agent: advisorName,
+        messageId,
+        timestamp: Date.now(),
+      });
+
+      return result.response || null;
+    } catch (error) {
+      // The client left mid-stream - nothing failed and nobody is listening
+      if (this.isCancelled) {
+        return null;
+      }
+
+      // Graceful error handling - don't crash entire debate
+      console.error(`Error from ${advisorName}:`, error);
+
+      onEvent?.({
+        type: 'error',
+        content: `${advisorName} failed to respond: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: Date.now(),
+      });
+
+      return null;
+    }
+  }
+
+  /**
+   * Put a sample question to one advisor outside a debate (the persona editor's test-drive)
+   * The turn streams like a Round 1 answer; there is no research, consensus or final answer
+   */
+  async testAdvisor(
+    advisorName: AdvisorId,
+    question: string,
+    onEvent?: (event: StreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    this.costTracker = new DebateCostTracker(this.modelKey);
+    this.debateId = `test-${Date.now().toString(36)}`;
+    this.turnCounter = 0;
+    this.retryCount = 0;
+    this.signal = signal;
+
+    const state = this.createInitialState(question);
+    state.currentRound = 1;
+    return this.runAdvisorTurn(advisorName, state, onEvent);
+  }
+
+  /**
+   * Run the complete council debate
+   */
+  async runCouncilDebate(
+    userQuestion: string,
+    conversationHistory: string = '',
+    onEvent?: (event: StreamEvent) => void,
+    options?: DebateOptions
+  ): Promise<DebateResult> {
+    this.costTracker = new DebateCostTracker(this.modelKey);
+    this.debateId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    this.turnCounter = 0;
+    this.retryCount = 0;
+    this.budgetReached = false;
+    this.session = options?.session || null;
+    this.completedTurns = [];
+    this.agreementHistory = [];
+    this.signal = options?.signal;
+    this.partialState = null;
+
+    try {
+      return await this.executeDebate(userQuestion, conversationHistory, onEvent, options);
+    } catch (error) {
+      // Aborted provider calls reject - that is the client leaving, not a failure
+      if (this.isCancelled && this.partialState) {
+        return this.cancelDebate(this.partialState);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the entry point (resume, continue, regenerate or a fresh debate) and run it
+   */
+  private async executeDebate(
+    userQuestion: string,
+    conversationHistory: string,
+    onEvent?: (event: StreamEvent) => void,
+    options?: DebateOptions
+  ): Promise<DebateResult> {
+    if (options?.resumeFrom) {
+      return this.resumeDebate(options.resumeFrom, onEvent);
+    }
+
+    // Continue/regenerate reuse the previous debate instead of paying for a fresh one
+    if (options?.previousDebate && (options.regenerate || options.continueDebate)) {
+      const previousState = this.restoreState(userQuestion, conversationHistory, options.previousDebate);
+      this.partialState = previousState;
+
+      if (previousState.currentRound > 0) {
+        return options.regenerate
+          ? this.regenerateFinalAnswer(previousState, onEvent)
+          : this.continueDebate(previousState, onEvent);
+      }
+    }
+
+    const state = this.createInitialState(userQuestion, conversationHistory);
+    this.partialState = state;
+
+    this.emitCostEstimate(state, this.maxRounds, onEvent);
+
+    // CLARIFICATION CHECK DISABLED FOR NOW
+    // Reason: Too aggressive - blocks valid questions like "what is the best kind of cheese?"
+    // TODO: Re-enable with better heuristics for open source launch
+    //
+    // if (!conversationHistory || conversationHistory.trim().length === 0) {
+    //   onEvent?.({ type: 'moderator_analysis', content: 'Analyzing question...', timestamp: Date.now() });
+    //   const clarification = await this.checkForClarification(state);
+    //
+    //   if (clarification.needsClarification) {
+    //     onEvent?.({
+    //       type: 'clarification_needed',
+    //       content: clarification.question,
+    //       timestamp: Date.now(),
+    //     });
+    //
+    //     return {
+    //       state: { ...state, needsClarification: true, clarificationQuestion: clarification.question },
+    //       finalAnswer: clarification.question || '',
+    //     };
+    //   }
+    // }
+
+    // PERFORM RESEARCH FIRST (before advisors respond)
+    const shouldResearch = !this.isCancelled && this.shouldActivateResearch(userQuestion);
+    if (shouldResearch) {
+      onEvent?.({
+        type: 'status',
+        content: 'Performing web research...',
+        timestamp: Date.now(),
+      });
+      const researchResults = await this.performResearch(userQuestion, onEvent);
+
+      if (researchResults && researchResults.length > 0) {
+        // Store research in state so ALL advisors can see it
+        state.researchResults = researchResults;
+
+        // Emit research results event with sources
+        onEvent?.({
+          type: 'research_results',
+          content: `Found ${researchResults.length} relevant sources`,
+          data: { sources: researchResults },
+          timestamp: Date.now(),
+        });
+      }
+    }
+
+    return this.runRounds(state, onEvent);
+  }
+
+  /**
+   * Resume a finished debate and run additional rounds on top of it
+   */
+  async continueDebate(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<DebateResult> {
+    state.maxRounds = state.currentRound + this.continueRounds;
+    state.finalAnswer = undefined;
+
+    this.emitCostEstimate(state, this.continueRounds, onEvent);
+
+    onEvent?.({
+      type: 'moderator_analysis',
+      messageId: this.nextMessageId('moderator', state.currentRound),
+      content: `Continuing the debate from Round ${state.currentRound}...`,
+      timestamp: Date.now(),
+    });
+
+    return this.runRounds(state, onEvent);
+  }
+
+  /**
+   * Rebuild a paused debate from its checkpoint and run the remaining turns and rounds
+   */
+  async resumeDebate(
+    checkpoint: DebateCheckpoint,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<DebateResult> {
+    const state = this.restoreState(checkpoint.question, '', { agentResponses: checkpoint.agentResponses });
+    state.currentRound = checkpoint.currentRound;
+    state.maxRounds = checkpoint.maxRounds;
+    state.conversationHistory = checkpoint.conversationHistory;
+    state.researchResults = checkpoint.researchResults;
+    state.interruptions = checkpoint.interruptions;
+    this.partialState = state;
+
+    this.costTracker = new DebateCostTracker(this.modelKey, checkpoint.cost);
+    this.agreementHistory = [...checkpoint.agreementHistory];
+    const resumeTurns = checkpoint.completedTurns.filter(
+      (advisor) => this.selectedAdvisors.includes(advisor)
+    );
+
+    this.emitCostEstimate(state, Math.max(1, state.maxRounds - state.currentRound), onEvent);
+
+    onEvent?.({
+      type: 'status',
+      content: `Resuming debate from Round ${Math.max(state.currentRound, 1)}...`,
+      timestamp: Date.now(),
+    });
+
+    return this.runRounds(state, onEvent, resumeTurns.length > 0 ? resumeTurns : undefined);
+  }
+
+  /**
+   * Re-synthesize the final answer from the existing advisor responses
+   * No advisor calls are made - only consensus analysis and synthesis are re-run
+   */
+  async regenerateFinalAnswer(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<DebateResult> {
+    const previousAnswer = state.finalAnswer;
+
+    onEvent?.({
+      type: 'status',
+      content: 'Regenerating final answer...',
+      timestamp: Date.now(),
+    });
+
+    onEvent?.({
+      type: 'moderator_analysis',
+      messageId: this.nextMessageId('moderator', state.currentRound),
+      content: 'Re-synthesizing the council\'s perspectives...',
+      timestamp: Date.now(),
+    });
+
+    const consensus = await this.checkConsensus(state, onEvent);
+    const finalAnswer = await this.generateFinalAnswer(state, consensus, onEvent, previousAnswer);
+    state.consensusReached = consensus.consensusReached;
+    await this.publishFinalAnswer(state, consensus, finalAnswer, onEvent);
+
+    return { state, finalAnswer };
+  }
+
+  /**
+   * Analyze consensus and stream the full analysis for the current round
+   */
+  private async checkConsensus(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<ConsensusAnalysis> {
+    onEvent?.({
+      type: 'status',
+      content: 'Checking for consensus...',
+      timestamp: Date.now(),
+    });
+
+    const analysis = await this.analyzeConsensus(state, onEvent);
+    const check: ConsensusCheck = { round: state.currentRound, analysis };
+
+    onEvent?.({
+      type: 'consensus_check',
+      content: analysis.analysisFailed
+        ? 'Consensus analysis unavailable'
+        : `${Math.round(analysis.agreementLevel * 100)}% agreement - ${analysis.consensusReached ? 'consensus reached' : 'no consensus yet'}`,
+      data: check,
+      timestamp: Date.now(),
+    });
+
+    return analysis;
+  }
+
+  /**
+   * Move interruptions queued on the session into the debate state and acknowledge them
+   */
+  private pickUpInterruptions(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): void {
+    const pending = this.session?.takeInterruptions() || [];
+    if (pending.length === 0) return;
+
+    const picked: Interruption[] = pending.map((interruption) => ({ ...interruption, round: state.currentRound }));
+    state.interruptions = [...(state.interruptions || []), ...picked];
+
+    for (const interruption of picked) {
+      onEvent?.({
+        type: 'interruption',
+        content: interruption.content,
+        data: interruption,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Snapshot everything needed to resume the debate from this point
+   */
+  private createCheckpoint(state: DebateState): DebateCheckpoint {
+    return {
+      version: 1,
+      question: state.messages.find((m) => m.role === 'user')?.content || '',
+      currentRound: state.currentRound,
+      maxRounds: state.maxRounds,
+      agentResponses: Object.fromEntries(
+        Object.entries(state.agentResponses).map(([advisor, responses]) => [advisor, [...responses]])
+      ),
+      completedTurns: [...this.completedTurns],
+      agreementHistory: [...this.agreementHistory],
+      researchResults: state.researchResults,
+      conversationHistory: state.conversationHistory,
+      interruptions: state.interruptions,
+      cost: this.costTracker.getReport(),
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Store the latest checkpoint on the session (after every advisor turn)
+   */
+  private saveCheckpoint(state: DebateState): void {
+    this.partialState = state;
+    this.session?.saveCheckpoint(this.createCheckpoint(state));
+  }
+
+  private get isCancelled(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
+  /**
+   * Stop after the client disconnected, keeping whatever the debate produced so far
+   * No events are emitted - the stream has no reader any more
+   */
+  private cancelDebate(state: DebateState): DebateResult {
+    state.cancelled = true;
+    this.session?.saveCheckpoint(this.createCheckpoint(state));
+
+    const { total } = this.costTracker.getReport();
+    console.info(
+      `[Council] Debate ${this.debateId} cancelled in Round ${state.currentRound} after ${total.calls} calls ($${total.totalCost.toFixed(4)})`
+    );
+
+    return { state, finalAnswer: '', cancelled: true };
+  }
+
+  /**
+   * Stop between turns and hand the checkpoint to the client so it can resume later
+   */
+  private pauseDebate(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void
+  ): DebateResult {
+    const checkpoint = this.createCheckpoint(state);
+    this.session?.saveCheckpoint(checkpoint);
 
+    onEvent?.({
+      type: 'paused',
+      content: `Debate paused in Round ${Math.max(state.currentRound, 1)}`,
+      data: checkpoint,
+      timestamp: Date.now(),
+    });
+
+    return { state, finalAnswer: '', paused: true };
+  }
+
+  /**
+   * Per-turn message ID (debate + speaker + round + turn) linking a message's stream events
+   */
+  private nextMessageId(speaker: string, round: number): string {
+    return `${this.debateId}-${speaker}-r${round}-t${this.turnCounter++}`;
+  }
+
+  /**
+   * Build a provider request, respecting the model's caching support and output limit
+   */
+  private buildRequest(
+    target: ResolvedModel,
+    system: string,
+    maxTokens: number,
+    messages: ChatMessage[],
+    caller: { speaker: string; task: CompletionTask }
+  ): CompletionRequest {
+    return {
+      model: target.apiId,
+      maxTokens: Math.min(maxTokens, target.definition.maxOutputTokens),
+      system,
+      ...caller,
+      cacheSystemPrompt: target.definition.capabilities.promptCaching,
+      messages,
+      signal: this.signal,
+    };
+  }
+
+  /**
+   * Stop the debate if the next advisor turns plus the wrap-up would break the spending cap
+   * Emits `budget_reached` once, explaining the stop; returns whether the budget is exhausted
+   */
+  private checkBudget(state: DebateState, advisors: AdvisorId[], onEvent?: (event: StreamEvent) => void): boolean {
+    if (this.maxCostUsd === undefined) return false;
+    if (this.budgetReached) return true;
+
+    const report = this.costTracker.getReport();
+    const spentUsd = report.total.totalCost;
+    const projectedUsd = spentUsd + this.projectCost(state, advisors, report);
+    if (projectedUsd <= this.maxCostUsd) return false;
+
+    this.budgetReached = true;
+    onEvent?.({
+      type: 'budget_reached',
+      content: `Spending cap of ${formatCost(this.maxCostUsd)} reached (${formatCost(spentUsd)} spent). Ending the debate early with an answer from what the council has said so far.`,
+      data: { maxCostUsd: this.maxCostUsd, spentUsd, projectedUsd, round: state.currentRound },
+      timestamp: Date.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Expected cost of the given advisor turns plus the wrap-up (consensus analysis and final answer)
+   * Prompts are estimated from the text they will carry, outputs from this debate's averages so far
+   */
+  private projectCost(state: DebateState, advisors: AdvisorId[], report: DebateCostReport): number {
+    const question = state.messages.find((m) => m.role === 'user')?.content || '';
+    const research = (state.researchResults || []).map((r) => `${r.title} ${r.url} ${r.snippet}`).join('\n');
+    const shared = `${this.buildHistoryContext(state)}${question}${research}`;
+
+    let cost = 0;
+    for (const advisor of advisors) {
+      const target = this.advisorModels[advisor];
+      const prompt = this.personas.resolve(advisor).systemPrompt + shared + this.buildAdvisorContext(state, advisor);
+      cost += estimateCallCost(target.key, prompt, expectedOutputTokens('advisor', report));
+    }
+
+    // The moderator reads every advisor's latest position (the turns above replace theirs with similar-sized ones)
+    const positions = this.selectedAdvisors
+      .map((advisor) => {
+        const responses = state.agentResponses[advisor];
+        return responses && responses.length > 0 ? responses[responses.length - 1] : '';
+      })
+      .join('\n');
+    const moderatorPrompt = this.personas.moderator.systemPrompt + shared + positions;
+    const moderator = this.moderatorModel;
+    cost += estimateCallCost(moderator.key, moderatorPrompt, expectedOutputTokens('consensus', report));
+    cost += estimateCallCost(moderator.key, moderatorPrompt, expectedOutputTokens('final_answer', report));
+    cost += estimateTokenCost(
+      moderator.key,
+      estimateTokens(this.personas.moderator.systemPrompt + question) + expectedOutputTokens('final_answer', report),
+      expectedOutputTokens('structured_answer', report)
+    );
+
+    return cost;
+  }
+
+  /**
+   * Run one upstream call, retrying transient provider failures with exponential backoff
+   * The server's retry-after wins over the computed delay; each retry is reported as a `retry` event
+   */
+  private async callWithRetry<T>(
+    phase: TimeoutPhase,
+    target: ResolvedModel,
+    call: (signal: AbortSignal) => Promise<T>,
+    onEvent?: (event: StreamEvent) => void,
+    options?: { agent?: AdvisorId; canRetry?: () => boolean }
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withPhaseTimeout(phase, call);
+      } catch (error) {
+        if (!(error instanceof ProviderError) || !error.retryable || attempt >= MAX_CALL_ATTEMPTS
+          || this.isCancelled || options?.canRetry?.() === false) {
+          throw error;
+        }
+
+        // Jitter keeps a parallel round's advisors from retrying in lockstep
+        const backoffMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+        const delayMs = Math.round(Math.min(error.retryAfterMs ?? backoffMs, RETRY_MAX_DELAY_MS));
+        const speaker = options?.agent ? this.personas.resolve(options.agent).name : PHASE_LABELS[phase];
+        const reason = error.status === 429 ? 'was rate limited'
+          : error.status === 529 || error.status === 503 ? 'hit an overloaded model'
+          : 'failed';
+
+        this.retryCount++;
+        console.warn(`[Council] ${speaker} ${reason} on ${target.key} (attempt ${attempt}): ${error.message}`);
         onEvent?.({
-          type: 'consensus_check',
-          content: 'Analyzing consensus...',
+          type: 'retry',
+          agent: options?.agent,
+          content: `${speaker} ${reason} - retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${MAX_CALL_ATTEMPTS})...`,
+          data: { phase, model: target.key, attempt: attempt + 1, maxAttempts: MAX_CALL_ATTEMPTS, delayMs, status: error.status },
+          retryCount: this.retryCount,
           timestamp: Date.now(),
         });
 
-        const consensus = await this.analyzeConsensus(state);
+        await this.wait(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Sleep between retries; rejects as soon as the debate is cancelled
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const signal = this.signal;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Run one upstream call under its phase timeout
+   * The call gets a signal aborted on timeout or cancellation; the race covers providers that ignore it
+   */
+  private async withPhaseTimeout<T>(
+    phase: TimeoutPhase,
+    call: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const timeoutMs = this.phaseTimeouts[phase];
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(this.signal?.reason);
+    if (this.signal?.aborted) {
+      onCancel();
+    } else {
+      this.signal?.addEventListener('abort', onCancel, { once: true });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new PhaseTimeoutError(phase, timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  /**
+   * Record real token usage for one API call and stream the running totals
+   */
+  private recordUsage(
+    usage: TokenUsage,
+    phase: CostPhase,
+    target: ResolvedModel,
+    onEvent?: (event: StreamEvent) => void,
+    agent?: string
+  ): void {
+    const report = this.costTracker.record(usage, phase, agent, target.key);
+
+    onEvent?.({
+      type: 'cost_actual',
+      agent,
+      data: report,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Emit a cost estimate for the rounds about to run
+   */
+  private emitCostEstimate(
+    state: DebateState,
+    rounds: number,
+    onEvent?: (event: StreamEvent) => void
+  ): void {
+    const costEstimate: CostEstimate = estimateDebateCost(
+      this.modelKey,
+      this.mode,
+      this.selectedAdvisors.length,
+      this.enableResearch,
+      state.conversationHistory ? estimateTokens(state.conversationHistory) : 0,
+      {
+        advisors: this.selectedAdvisors.map((advisor) => this.advisorModels[advisor].key),
+        moderator: this.moderatorModel.key,
+      },
+      rounds
+    );
+
+    onEvent?.({
+      type: 'cost_estimate',
+      data: costEstimate,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Run rounds until consensus or state.maxRounds, then synthesize the final answer
+   */
+  private async runRounds(
+    state: DebateState,
+    onEvent?: (event: StreamEvent) => void,
+    resumeTurns?: AdvisorId[]
+  ): Promise<DebateResult> {
+    const adaptive = this.mode === 'adaptive';
+    let consensus: ConsensusAnalysis | null = null;
+    let stall: StallReport | null = null;
+
+    while (state.currentRound < state.maxRounds || resumeTurns) {
+      // A round resumed from a checkpoint has already started (currentRound was advanced)
+      const round = resumeTurns ? state.currentRound - 1 : state.currentRound;
+
+      if (this.isCancelled) {
+        return this.cancelDebate(state);
+      }
+      if (!resumeTurns && this.session?.isPauseRequested) {
+        return this.pauseDebate(state, onEvent);
+      }
+      if (this.checkBudget(state, this.selectedAdvisors.slice(0, 1), onEvent)) {
+        break;
+      }
+
+      onEvent?.({
+        type: 'status',
+        content: `Round ${round + 1} of ${adaptive ? 'up to ' : ''}${state.maxRounds}`,
+        timestamp: Date.now(),
+      });
+
+      onEvent?.({
+        type: 'moderator_analysis',
+        messageId: this.nextMessageId('moderator', state.currentRound),
+        content: resumeTurns ? `Resuming Round ${round + 1}...` : `Starting Round ${round + 1}...`,
+        timestamp: Date.now(),
+      });
+
+      state = await this.runDebateRound(state, onEvent, resumeTurns);
+      resumeTurns = undefined;
+
+      if (this.isCancelled) {
+        return this.cancelDebate(state);
+      }
+
+      // Paused mid-round, or right after the last turn (the consensus check runs on resume)
+      if (this.session?.isPauseRequested) {
+        return this.pauseDebate(state, onEvent);
+      }
+      if (this.checkBudget(state, [], onEvent)) {
+        break;
+      }
+
+      // Fixed modes check for consensus after round 2; adaptive checks every round so it can stop early
+      if (adaptive || round >= 1) {
+        consensus = await this.checkConsensus(state, onEvent);
+        if (!consensus.analysisFailed) {
+          this.agreementHistory.push(consensus.agreementLevel);
+        }
+
+        const reached = adaptive
+          ? !consensus.analysisFailed && consensus.agreementLevel >= this.agreementThreshold
+          : consensus.consensusReached;
+
+        if (reached) {
+          // Last chance to honor a pause (requested during the consensus check); resuming re-checks consensus
+          if (this.session?.isPauseRequested) {
+            return this.pauseDebate(state, onEvent);
+          }
 
-        if (consensus.consensusReached) {
           onEvent?.({
             type: 'status',
             content: 'Generating final consensus...',
@@ -671,42 +1775,68 @@ ${
 
           onEvent?.({
             type: 'moderator_analysis',
-            content: 'Consensus reached! Generating final answer...',
+            messageId: this.nextMessageId('moderator', state.currentRound),
+            content: adaptive
+              ? `Agreement reached ${Math.round(consensus.agreementLevel * 100)}% (threshold ${Math.round(this.agreementThreshold * 100)}%). Generating final answer...`
+              : 'Consensus reached! Generating final answer...',
             timestamp: Date.now(),
           });
 
-          const finalAnswer = await this.generateFinalAnswer(state, consensus);
+          const finalAnswer = await this.generateFinalAnswer(state, consensus, onEvent);
           state.consensusReached = true;
-          state.finalAnswer = finalAnswer;
-
-          onEvent?.({
-            type: 'final_answer',
-            content: finalAnswer,
-            timestamp: Date.now(),
-          });
+          await this.publishFinalAnswer(state, consensus, finalAnswer, onEvent);
 
           return { state, finalAnswer };
         }
+
+        // Stop paying for rounds that no longer move the debate
+        if (adaptive && state.currentRound < state.maxRounds) {
+          stall = detectStall(state.agentResponses, this.agreementHistory);
+          if (stall.stalled) {
+            break;
+          }
+        }
       }
+
+      // Round fully settled - a checkpoint from here starts the next round fresh
+      this.completedTurns = [];
+      this.saveCheckpoint(state);
+    }
+
+    if (this.budgetReached && !Object.values(state.agentResponses).some((responses) => responses.length > 0)) {
+      throw new Error(`The ${formatCost(this.maxCostUsd ?? 0)} spending cap is too low for the council to respond`);
     }
 
-    // No consensus after max rounds - generate final answer anyway
+    // No consensus after max rounds (or a stall, or the budget ran out) - generate final answer anyway
     onEvent?.({
       type: 'moderator_analysis',
-      content: 'Maximum rounds reached. Synthesizing perspectives...',
+      messageId: this.nextMessageId('moderator', state.currentRound),
+      content: this.budgetReached
+        ? 'Spending cap reached. Synthesizing perspectives from the debate so far...'
+        : stall?.stalled
+          ? `${describeStall(stall)} Ending the debate early and synthesizing perspectives...`
+          : 'Maximum rounds reached. Synthesizing perspectives...',
       timestamp: Date.now(),
     });
 
-    const consensus = await this.analyzeConsensus(state);
-    const finalAnswer = await this.generateFinalAnswer(state, consensus);
-    state.finalAnswer = finalAnswer;
-
-    onEvent?.({
-      type: 'final_answer',
-      content: finalAnswer,
-      timestamp: Date.now(),
-    });
+    // Reuse the last round's analysis; only analyze if no check ran yet (e.g. quick mode)
+    consensus ??= await this.checkConsensus(state, onEvent);
+    if (this.session?.isPauseRequested) {
+      return this.pauseDebate(state, onEvent);
+    }
+    const finalAnswer = await this.generateFinalAnswer(state, consensus, onEvent);
+    await this.publishFinalAnswer(state, consensus, finalAnswer, onEvent);
 
     return { state, finalAnswer };
   }
 }
+
+/**
+ * Human-readable reason an adaptive debate stopped early
+ */
+function describeStall(stall: StallReport): string {
+  if (stall.reason === 'repeating_positions') {
+    return `Advisors are repeating their positions (${Math.round(stall.similarity * 100)}% overlap with the last round).`;
+  }
+  return 'Agreement has stopped improving between rounds.';
+}
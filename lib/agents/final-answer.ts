@@ -0,0 +1,61 @@
+/**
+ * Structured Final Answer Schema
+ * Contract for turning the moderator's markdown answer into an action plan the UI and exports can use
+ * Like the consensus schema, one Zod schema validates the response and generates the JSON schema for the model
+ */
+
+import { z } from 'zod';
+import { extractJson } from './consensus';
+import type { StructuredFinalAnswer } from './types';
+
+export const FinalAnswerResponseSchema = z.object({
+  recommendation: z.string().min(1)
+    .describe('The council\'s recommendation in one or two sentences'),
+  confidence: z.enum(['low', 'medium', 'high'])
+    .describe('How confident the council is in the recommendation'),
+  actionSteps: z.array(z.object({
+    step: z.string().min(1).describe('A concrete action, starting with a verb'),
+    owner: z.string().describe('Who should do it ("You" when it is the user)'),
+    timeframe: z.string().describe('When to do it, e.g. "This week" or "Within 30 days"'),
+  })).describe('Action steps in the order to take them'),
+  risks: z.array(z.object({
+    risk: z.string().min(1),
+    mitigation: z.string().describe('How to reduce or handle the risk'),
+  })).describe('Main risks of following the recommendation'),
+  openQuestions: z.array(z.string())
+    .describe('Questions the user still needs to answer'),
+});
+
+/**
+ * JSON schema for tool use / structured output (draft marker stripped for provider compatibility)
+ */
+export const FINAL_ANSWER_JSON_SCHEMA: Record<string, unknown> = (() => {
+  const schema: Record<string, unknown> = { ...z.toJSONSchema(FinalAnswerResponseSchema) };
+  delete schema.$schema;
+  return schema;
+})();
+
+/**
+ * Parse and validate a structured final answer
+ * Returns a readable error describing what was wrong so it can be sent back on retry
+ */
+export function parseFinalAnswerResponse(
+  text: string
+): { success: true; data: StructuredFinalAnswer } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+
+  const parsed = FinalAnswerResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+}
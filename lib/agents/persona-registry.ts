@@ -0,0 +1,123 @@
+/**
+ * Persona Registry
+ * Merges the built-in personas with user-defined advisors so both can sit on the council
+ * Custom personas live in the browser and travel with each debate request; the server stores none
+ */
+
+import { PERSONAS, ADVISOR_NAMES, type Persona } from './personas';
+
+export interface CustomPersona extends Persona {
+  id: string; // Slug used in events, model assignments and saved conversations
+}
+
+// Replacement fields for the built-in moderator (unset fields keep the defaults)
+export type ModeratorOverride = Partial<Omit<Persona, 'image'>>;
+
+// Custom advisor IDs: lowercase slug that can't be mistaken for anything else in an event
+export const PERSONA_ID_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
+// Custom advisors a user can register (and send with one request)
+export const MAX_CUSTOM_PERSONAS = 20;
+
+/**
+ * Whether an ID belongs to a built-in persona (including the moderator)
+ */
+export function isBuiltInPersona(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PERSONAS, id);
+}
+
+/**
+ * Turn a display name into a free persona ID ("Our CFO" -> "our-cfo", "our-cfo-2", ...)
+ */
+export function createPersonaId(name: string, takenIds: Iterable<string>): string {
+  const taken = new Set(takenIds);
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^[^a-z]+|-+$/g, '')
+    .slice(0, 32) || 'advisor';
+  const slug = base.length >= 2 ? base : `${base}-advisor`;
+
+  let id = slug;
+  for (let n = 2; taken.has(id) || isBuiltInPersona(id); n++) {
+    id = `${slug}-${n}`;
+  }
+  return id;
+}
+
+export class PersonaRegistry {
+  private custom = new Map<string, CustomPersona>();
+  private moderatorPersona: Persona;
+
+  /**
+   * Built-ins always win: a custom persona can't shadow an existing ID
+   * (the moderator is the exception - its fields can be overridden, but not replaced)
+   */
+  constructor(customPersonas: CustomPersona[] = [], moderatorOverride?: ModeratorOverride) {
+    this.moderatorPersona = applyModeratorOverride(moderatorOverride);
+    for (const persona of customPersonas) {
+      if (!isBuiltInPersona(persona.id)) {
+        this.custom.set(persona.id, persona);
+      }
+    }
+  }
+
+  get moderator(): Persona {
+    return this.moderatorPersona;
+  }
+
+  get(id: string): Persona | undefined {
+    if (id === 'moderator') return this.moderatorPersona;
+    return isBuiltInPersona(id) ? PERSONAS[id] : this.custom.get(id);
+  }
+
+  /**
+   * Like get(), for IDs that must exist (throws on unknown IDs)
+   */
+  resolve(id: string): Persona {
+    const persona = this.get(id);
+    if (!persona) {
+      throw new Error(`Unknown persona: ${id}`);
+    }
+    return persona;
+  }
+
+  /**
+   * Whether the ID can take a seat on the council (any registered persona except the moderator)
+   */
+  isAdvisor(id: string): boolean {
+    return id !== 'moderator' && this.get(id) !== undefined;
+  }
+
+  /**
+   * Every advisor ID: built-ins first, then custom advisors in the order they were added
+   */
+  get advisorIds(): string[] {
+    return [...ADVISOR_NAMES, ...this.custom.keys()];
+  }
+
+  get customPersonas(): CustomPersona[] {
+    return Array.from(this.custom.values());
+  }
+}
+
+/**
+ * The built-in moderator with any overridden fields applied
+ */
+export function applyModeratorOverride(override?: ModeratorOverride | null): Persona {
+  const moderator = { ...PERSONAS.moderator };
+  if (!override) return moderator;
+
+  for (const key of ['name', 'role', 'color', 'avatar', 'systemPrompt'] as const) {
+    const value = override[key];
+    if (value) moderator[key] = value;
+  }
+  return moderator;
+}
+
+/**
+ * Look up a persona by agent ID without building a registry (for display code)
+ */
+export function lookupPersona(id: string, customPersonas: CustomPersona[] = []): Persona | undefined {
+  return isBuiltInPersona(id) ? PERSONAS[id] : customPersonas.find((persona) => persona.id === id);
+}
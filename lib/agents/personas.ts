@@ -25,7 +25,7 @@ CRITICAL RULES:
 3. Keep your comments brief (1 sentence)
 4. Don't repeat what advisors said - synthesize the final answer only
 
-When checking consensus: Look for 3+ advisors agreeing on the core recommendation. They don't need to agree on every detail.`,
+When checking consensus: Follow the consensus criterion given in the request - it says how many advisors must agree and how strictly.`,
   },
 
   naval: {
@@ -146,3 +146,6 @@ Bad: "Let me discuss end-to-end encryption and decentralization and surveillance
 
 export const ADVISOR_NAMES = ['naval', 'elon', 'larry', 'alex', 'pavel'] as const;
 export type AdvisorName = typeof ADVISOR_NAMES[number];
+
+// Any council seat: a built-in advisor name or a custom persona ID (see persona-registry.ts)
+export type AdvisorId = string;
@@ -0,0 +1,308 @@
+/**
+ * Debate Sessions
+ * Server-side registry of live debates so requests outside the SSE stream can reach them
+ * Each session buffers its events so a dropped client can reconnect and replay what it missed
+ * Sessions live in process memory - multi-instance deployments need sticky sessions
+ */
+
+import type { DebateCheckpoint, Interruption, StreamEvent } from './types';
+
+// Sessions older than this are dropped even if their stream never closed
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+// Finished sessions stay around this long so a client that dropped near the end can replay the tail
+const REPLAY_RETENTION_MS = 2 * 60 * 1000;
+
+// With no client connected for this long the debate is cancelled (stops paying for unread output)
+const RECONNECT_GRACE_MS = 20 * 1000;
+
+// Events kept for replay (older ones are dropped first; a debate streams a few thousand chunks)
+const MAX_BUFFERED_EVENTS = 10_000;
+
+// Comment sent to each connected client while the debate is quiet, so proxies don't drop an idle
+// connection and the client can tell a slow model call from a dead stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Interruptions waiting for the next advisor turn (older ones are dropped first)
+const MAX_PENDING_INTERRUPTIONS = 10;
+
+type EventListener = (event: StreamEvent) => void;
+
+/**
+ * Format one event as an SSE message (the id lets clients resume with Last-Event-ID)
+ */
+function formatSseEvent(event: StreamEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * One live debate: the handle the orchestrator polls between advisor turns
+ */
+export class DebateSession {
+  readonly id: string;
+  readonly createdAt: number;
+  private pendingInterruptions: Interruption[] = [];
+  private pauseRequested = false;
+  private wrappingUp = false; // The final answer is being written (no more turns to pause before or interject into)
+  private latestCheckpoint: DebateCheckpoint | null = null; // Updated after every advisor turn
+  private events: StreamEvent[] = [];
+  private nextEventId = 1;
+  private listeners = new Set<EventListener>();
+  private abortController = new AbortController();
+  private cancelTimer: ReturnType<typeof setTimeout> | null = null;
+  private finishedAt: number | null = null;
+
+  constructor(id: string) {
+    this.id = id;
+    this.createdAt = Date.now();
+  }
+
+  /**
+   * Aborted when the debate is cancelled (explicitly, or no client reconnected in time)
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isFinished(): boolean {
+    return this.finishedAt !== null;
+  }
+
+  /**
+   * True once the session outlived its TTL, or finished and its replay window passed
+   */
+  isExpired(now: number = Date.now()): boolean {
+    return now - this.createdAt > SESSION_TTL_MS
+      || (this.finishedAt !== null && now - this.finishedAt > REPLAY_RETENTION_MS);
+  }
+
+  /**
+   * Queue a user interjection for the next advisor turn
+   */
+  queueInterruption(content: string): Interruption {
+    const interruption: Interruption = {
+      id: `interrupt-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      content,
+      timestamp: Date.now(),
+    };
+
+    this.pendingInterruptions.push(interruption);
+    if (this.pendingInterruptions.length > MAX_PENDING_INTERRUPTIONS) {
+      this.pendingInterruptions.shift();
+    }
+
+    return interruption;
+  }
+
+  /**
+   * Remove and return everything queued since the last call
+   */
+  takeInterruptions(): Interruption[] {
+    const interruptions = this.pendingInterruptions;
+    this.pendingInterruptions = [];
+    return interruptions;
+  }
+
+  /**
+   * Mark the debate as writing its final answer; interjections and pauses are turned away from here on
+   */
+  beginWrapUp(): void {
+    this.wrappingUp = true;
+  }
+
+  get isWrappingUp(): boolean {
+    return this.wrappingUp;
+  }
+
+  /**
+   * Ask the debate to stop after the advisor currently speaking
+   * Returns false once the final answer is being written (no checkpoint left to stop at)
+   */
+  requestPause(): boolean {
+    if (this.wrappingUp) return false;
+    this.pauseRequested = true;
+    return true;
+  }
+
+  get isPauseRequested(): boolean {
+    return this.pauseRequested;
+  }
+
+  get checkpoint(): DebateCheckpoint | null {
+    return this.latestCheckpoint;
+  }
+
+  saveCheckpoint(checkpoint: DebateCheckpoint): void {
+    this.latestCheckpoint = checkpoint;
+  }
+
+  /**
+   * Stamp an event with the next ID, buffer it and push it to connected clients
+   */
+  publish(event: StreamEvent): void {
+    if (this.isFinished) return;
+
+    const stamped: StreamEvent = { ...event, id: this.nextEventId++ };
+    this.events.push(stamped);
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      listener(stamped);
+    }
+  }
+
+  /**
+   * Mark the debate as over; connected streams receive a final `done` event and close
+   */
+  finish(): void {
+    this.publish({ type: 'done', timestamp: Date.now() });
+    this.finishedAt = Date.now();
+    this.clearCancelTimer();
+    this.listeners.clear();
+  }
+
+  /**
+   * Cancel the debate now (the orchestrator sees the aborted signal)
+   */
+  cancel(): void {
+    this.clearCancelTimer();
+    this.abortController.abort();
+  }
+
+  /**
+   * Whether every event after `lastEventId` is still buffered
+   */
+  canReplayFrom(lastEventId: number): boolean {
+    const oldest = this.events[0]?.id ?? this.nextEventId;
+    return lastEventId >= oldest - 1;
+  }
+
+  /**
+   * SSE byte stream of this session: buffered events after `lastEventId`, then live ones
+   * Closes after the `done` event; heartbeat comments fill quiet stretches. If the last client
+   * leaves while the debate is running, the debate is cancelled unless someone reconnects within
+   * the grace period
+   */
+  createStream(lastEventId: number, signal: AbortSignal): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let listener: EventListener | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const stopHeartbeat = () => {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+    };
+
+    const detach = () => {
+      stopHeartbeat();
+      if (!listener) return;
+      this.listeners.delete(listener);
+      listener = null;
+
+      if (this.listeners.size === 0 && !this.isFinished) {
+        this.clearCancelTimer();
+        this.cancelTimer = setTimeout(() => this.cancel(), RECONNECT_GRACE_MS);
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (event: StreamEvent) => {
+          try {
+            controller.enqueue(encoder.encode(formatSseEvent(event)));
+            if (event.type === 'done') {
+              controller.close();
+            }
+          } catch {
+            // Stream already closed by the client
+          }
+        };
+
+        for (const event of this.events) {
+          if (event.id !== undefined && event.id > lastEventId) {
+            send(event);
+          }
+        }
+
+        if (this.isFinished) {
+          controller.close();
+          return;
+        }
+
+        this.clearCancelTimer();
+        listener = (event) => {
+          send(event);
+          if (event.type === 'done') {
+            stopHeartbeat();
+            listener = null; // Finished - nothing to cancel when this stream goes away
+          }
+        };
+        this.listeners.add(listener);
+
+        heartbeat = setInterval(() => {
+          try {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'));
+          } catch {
+            detach(); // Stream already closed by the client
+          }
+        }, HEARTBEAT_INTERVAL_MS);
+        signal.addEventListener('abort', detach, { once: true });
+      },
+      cancel: detach,
+    });
+  }
+
+  private clearCancelTimer(): void {
+    if (this.cancelTimer) {
+      clearTimeout(this.cancelTimer);
+      this.cancelTimer = null;
+    }
+  }
+}
+
+class DebateSessionRegistry {
+  private sessions = new Map<string, DebateSession>();
+
+  /**
+   * Register a new session with an unguessable ID (the ID is the only credential)
+   */
+  create(): DebateSession {
+    this.prune();
+    const session = new DebateSession(crypto.randomUUID());
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a session; finished sessions stay available for replay until their retention ends
+   */
+  get(id: string): DebateSession | undefined {
+    const session = this.sessions.get(id);
+    if (session?.isExpired()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Drop expired sessions
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (session.isExpired(now)) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+// Kept on globalThis so dev-mode module reloads don't orphan running debates
+const globalForSessions = globalThis as unknown as { debateSessions?: DebateSessionRegistry };
+
+export const debateSessions = globalForSessions.debateSessions ??= new DebateSessionRegistry();
@@ -0,0 +1,80 @@
+/**
+ * Moderator Synthesis Settings
+ * How the moderator writes the final answer and how strictly it judges consensus
+ */
+
+export type SynthesisStyle = 'balanced' | 'executive_memo' | 'action_plan' | 'narrative' | 'pros_cons';
+
+export const SYNTHESIS_STYLE_IDS = ['balanced', 'executive_memo', 'action_plan', 'narrative', 'pros_cons'] as const satisfies readonly SynthesisStyle[];
+
+export const DEFAULT_SYNTHESIS_STYLE: SynthesisStyle = 'balanced';
+
+// Advisors who must agree on the core recommendation before the moderator declares consensus
+export const DEFAULT_CONSENSUS_QUORUM = 3;
+
+export interface SynthesisStyleDefinition {
+  label: string;
+  description: string; // Shown in settings
+  instructions: string; // Appended to the final answer prompt
+}
+
+export const SYNTHESIS_STYLES: Record<SynthesisStyle, SynthesisStyleDefinition> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'Structured answer with insights, recommendations and caveats',
+    instructions: `Provide a clear, actionable final answer that:
+1. Directly answers the user's question
+2. Incorporates the collective wisdom of the council
+3. Highlights key insights and recommendations
+4. Notes any important caveats or alternative perspectives
+5. Is structured and easy to follow`,
+  },
+  executive_memo: {
+    label: 'Executive Memo',
+    description: 'Bottom line up front, then rationale, risks and next steps',
+    instructions: `Write the final answer as a short executive memo:
+- Start with a one-sentence bottom line that directly answers the user's question
+- Then use these sections: **Recommendation**, **Rationale**, **Risks**, **Next Steps**
+- Keep it under 350 words, crisp and free of filler
+- Mention dissenting advisors only where it changes the decision`,
+  },
+  action_plan: {
+    label: 'Action Plan',
+    description: 'Numbered steps to take, with minimal prose',
+    instructions: `Write the final answer as a bullet action plan:
+- Open with one sentence stating the recommendation
+- Follow with a numbered list of concrete steps in the order to take them, each starting with a verb and saying when to do it
+- End with a short "Watch out for" list of the main risks
+- Keep explanation to a minimum; every line should be something the user can act on`,
+  },
+  narrative: {
+    label: 'Narrative',
+    description: 'Flowing prose that walks through the debate',
+    instructions: `Write the final answer as a flowing narrative of a few paragraphs, with no headings or bullet lists:
+- Open by directly answering the user's question
+- Walk through how the council's thinking developed, where the advisors differed and why
+- Close with what the user should do next`,
+  },
+  pros_cons: {
+    label: 'Pros/Cons Table',
+    description: 'Recommendation plus a table weighing the options',
+    instructions: `Structure the final answer around a markdown table:
+- Open with a one-paragraph recommendation that directly answers the user's question
+- Add a table with columns | Option | Pros | Cons | covering the options the council discussed (use a single row if only one option was on the table)
+- Close with a short verdict explaining which way the trade-offs tip and why`,
+  },
+};
+
+export interface ConsensusRules {
+  quorum: number; // Advisors who must agree on the core recommendation
+  countPartialAgreement: boolean; // Whether advisors who only partially agree count toward the quorum
+}
+
+/**
+ * The consensus criterion as written into the moderator's analysis prompt
+ */
+export function describeConsensusRules(rules: ConsensusRules): string {
+  return rules.countPartialAgreement
+    ? `${rules.quorum}+ advisors must agree on the fundamental answer; they don't need to agree on every detail`
+    : `${rules.quorum}+ advisors must fully agree on the recommendation, including its key conditions; partial agreement does not count`;
+}
@@ -2,6 +2,8 @@
  * Type definitions for the AI Council system
  */
 
+import type { DebateCostReport } from '../utils/cost-calculator';
+
 export interface Message {
   role: 'user' | 'assistant' | 'moderator' | 'naval' | 'elon' | 'larry' | 'alex' | 'pavel';
   content: string;
@@ -30,21 +32,104 @@ export interface DebateState {
   clarificationQuestion?: string;
   agentResponses: Record<string, string[]>; // agent name -> array of responses
   finalAnswer?: string;
+  structuredAnswer?: StructuredFinalAnswer; // Action plan extracted from finalAnswer (absent if extraction failed)
   researchResults?: ResearchResult[]; // Research findings to inform debate
+  conversationHistory?: string; // Trimmed earlier turns for follow-up questions
+  interruptions?: Interruption[]; // User interjections picked up while the debate was running
+  cancelled?: boolean; // The client disconnected before the debate finished
+}
+
+export interface Interruption {
+  id: string;
+  content: string;
+  timestamp: number;
+  round?: number; // Round the debate was in when an advisor picked it up
+}
+
+/**
+ * Snapshot of an in-flight debate taken after every advisor turn
+ * A paused debate resumes from this, even in a new request after a page reload
+ */
+export interface DebateCheckpoint {
+  version: 1;
+  question: string;
+  currentRound: number;
+  maxRounds: number;
+  agentResponses: Record<string, string[]>;
+  completedTurns: string[]; // Advisors who already spoke in currentRound (empty between rounds)
+  agreementHistory: number[]; // Agreement level after each consensus check, oldest first
+  researchResults?: ResearchResult[];
+  conversationHistory?: string;
+  interruptions?: Interruption[];
+  cost?: DebateCostReport; // Spend so far, carried over so totals stay accurate after resuming
+  createdAt: number;
+}
+
+export interface PreviousDebate {
+  agentResponses: Record<string, string[]>; // agent name -> responses from earlier rounds
+  finalAnswer?: string;
+  researchResults?: ResearchResult[];
+}
+
+export interface AdvisorStance {
+  advisor: string; // Advisor ID
+  stance: 'agrees' | 'partially_agrees' | 'disagrees'; // Relative to the majority view
+  position: string;
+}
+
+export interface MinorityView {
+  view: string;
+  advisors: string[]; // Advisor IDs
 }
 
 export interface ConsensusAnalysis {
   consensusReached: boolean;
   agreementLevel: number; // 0-1
+  confidence: 'low' | 'medium' | 'high'; // Moderator's confidence in this assessment
   agreements: string[];
   disagreements: string[];
   majorityView?: string;
-  minorityViews?: string[];
+  minorityViews: MinorityView[];
+  stances: AdvisorStance[];
+  analysisFailed?: boolean; // Moderator never returned valid output; treated as no consensus
+}
+
+/**
+ * Payload of a consensus_check event
+ */
+export interface ConsensusCheck {
+  round: number;
+  analysis: ConsensusAnalysis;
+}
+
+export interface ActionStep {
+  step: string;
+  owner: string; // Who does it ("You" when it falls to the user)
+  timeframe: string; // e.g. "This week", "Within 30 days"
+}
+
+export interface AnswerRisk {
+  risk: string;
+  mitigation: string;
+}
+
+/**
+ * Structured form of the final answer (sent as the data of a second `final_answer` event with the same messageId)
+ */
+export interface StructuredFinalAnswer {
+  recommendation: string;
+  confidence: 'low' | 'medium' | 'high';
+  actionSteps: ActionStep[]; // In the order to take them
+  risks: AnswerRisk[];
+  openQuestions: string[];
 }
 
 export interface StreamEvent {
-  type: 'agent_start' | 'agent_response' | 'agent_complete' | 'moderator_analysis' | 'consensus_check' | 'final_answer' | 'error' | 'clarification_needed' | 'research_start' | 'research_complete' | 'research_results' | 'cost_estimate' | 'cost_actual' | 'system' | 'status';
+  type: 'agent_start' | 'agent_response' | 'agent_complete' | 'moderator_analysis' | 'consensus_check' | 'final_answer' | 'error' | 'clarification_needed' | 'research_start' | 'research_complete' | 'research_results' | 'cost_estimate' | 'cost_actual' | 'system' | 'status' | 'session' | 'interruption' | 'paused' | 'retry' | 'budget_reached' | 'done';
   agent?: string;
+  id?: number; // Position in the session's event stream (monotonic; used for Last-Event-ID replay)
+  messageId?: string; // Per-turn ID shared by all events of one message (start, chunks, complete)
+  retryCount?: number; // Upstream call retries so far in this debate (on `retry` events)
   content?: string;
   data?: any;
   timestamp: number;
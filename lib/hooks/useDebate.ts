@@ -5,13 +5,31 @@
  */
 
 import { useCallback } from 'react';
-import { useDebateStore } from '@/lib/stores/debate-store';
-import { councilService } from '@/lib/services/council-service';
+import { useDebateStore, type Message } from '@/lib/stores/debate-store';
+import type { PreviousDebate, StreamEvent } from '@/lib/agents/types';
+import { councilService, type DebateConfig } from '@/lib/services/council-service';
 import { saveLastSettings } from '@/lib/utils/memory-system';
+import { savePausedDebate, clearPausedDebate } from '@/lib/utils/paused-debate';
+import { getCouncilModels, getModel, isKnownModel } from '@/lib/models/registry';
+import { MAX_PREVIOUS_ROUNDS } from '@/lib/utils/security';
 
 export function useDebate() {
   const store = useDebateStore();
 
+  /**
+   * Route stream events to the store, persisting the checkpoint if the debate pauses
+   */
+  const createEventHandler = useCallback((config: DebateConfig) => (event: StreamEvent) => {
+    store.handleStreamEvent(event);
+
+    if (event.type === 'paused' && event.data) {
+      const { messages, conversationTitle } = useDebateStore.getState();
+      const paused = { config, checkpoint: event.data, messages, conversationTitle, pausedAt: Date.now() };
+      savePausedDebate(paused);
+      store.setPausedDebate(paused);
+    }
+  }, [store]);
+
   /**
    * Start a new debate
    */
@@ -19,7 +37,7 @@ export function useDebate() {
     continueMode: boolean = false,
     regenerate: boolean = false
   ) => {
-    const { input, messages, settings, isDebating, isOnline } = useDebateStore.getState();
+    const { input, messages, settings, customPersonas, moderatorOverride, isDebating, isOnline } = useDebateStore.getState();
 
     // Validation
     if (!input.trim() && !continueMode && !regenerate) return;
@@ -54,8 +72,14 @@ export function useDebate() {
       }
     }
 
+    // Continue/regenerate operate on the last exchange, so it becomes the debate
+    // being resumed rather than part of the history
+    const lastUserIndex = messages.map(m => m.type).lastIndexOf('user');
+    const isResuming = (continueMode || regenerate) && lastUserIndex >= 0;
+    const historyMessages = isResuming ? messages.slice(0, lastUserIndex) : messages;
+
     // Build conversation history
-    const conversationHistory = messages
+    const conversationHistory = historyMessages
       .filter((m) => m.type === 'user' || m.type === 'moderator' || m.type === 'final' || m.type === 'interruption')
       .map((m) => {
         if (m.type === 'user') return `User: ${m.content}`;
@@ -73,6 +97,13 @@ export function useDebate() {
     store.setError(null);
     store.setProgress(0);
     store.setDebateStartTimestamp(Date.now());
+    store.resetCost();
+    store.resetConsensus();
+    store.setRetryCount(0);
+
+    // A new question supersedes any paused debate
+    clearPausedDebate();
+    store.setPausedDebate(null);
 
     // Save settings to memory (don't save keyword-based research preference)
     saveLastSettings({
@@ -82,25 +113,39 @@ export function useDebate() {
       research: false, // Never default to research
     });
 
+    // Local model name only matters if some role runs on the self-hosted server
+    const usesLocalModel = getCouncilModels(settings.model, settings.selectedAdvisors, settings.modelAssignments)
+      .some((model) => isKnownModel(model) && getModel(model).provider === 'openai-compatible');
+
+    // Override enableResearch based on keyword detection
+    const config: DebateConfig = {
+      question: questionToAsk,
+      conversationHistory,
+      mode: settings.mode,
+      ...(settings.mode === 'adaptive'
+        ? { agreementThreshold: settings.agreementThreshold, maxRounds: settings.maxRounds }
+        : {}),
+      parallelFirstRound: settings.parallelFirstRound,
+      synthesisStyle: settings.synthesisStyle,
+      consensusQuorum: settings.consensusQuorum && Math.min(settings.consensusQuorum, settings.selectedAdvisors.length),
+      countPartialAgreement: settings.countPartialAgreement,
+      advisors: settings.selectedAdvisors,
+      customPersonas: customPersonas.filter((persona) => settings.selectedAdvisors.includes(persona.id)),
+      moderatorOverride: moderatorOverride || undefined,
+      model: settings.model,
+      modelAssignments: settings.modelAssignments,
+      fallbackModel: settings.fallbackModel,
+      maxCostUsd: settings.maxCostUsd,
+      localModelName: usesLocalModel ? settings.localModelName : undefined,
+      enableResearch: hasResearchKeyword, // Only enable if keyword present
+      continueDebate: continueMode,
+      regenerate,
+      previousDebate: isResuming ? buildPreviousDebate(messages.slice(lastUserIndex + 1)) : undefined,
+    };
+
     try {
       // Start debate via service
-      // Override enableResearch based on keyword detection
-      await councilService.startDebate(
-        {
-          question: questionToAsk,
-          conversationHistory,
-          mode: settings.mode,
-          advisors: settings.selectedAdvisors,
-          model: settings.model,
-          enableResearch: hasResearchKeyword, // Only enable if keyword present
-          continueDebate: continueMode,
-          regenerate,
-        },
-        // Event handler - send events to store
-        (event) => {
-          store.handleStreamEvent(event);
-        }
-      );
+      await councilService.startDebate(config, createEventHandler(config));
 
       store.setProgress(100);
     } catch (error: any) {
@@ -108,9 +153,78 @@ export function useDebate() {
       console.error('Debate failed:', error);
     } finally {
       store.setIsDebating(false);
+      store.setSessionId(null);
+    }
+  }, [store, createEventHandler]);
+
+  /**
+   * Pause the running debate after the advisor currently speaking
+   */
+  const pauseDebate = useCallback(async () => {
+    const { sessionId } = useDebateStore.getState();
+    if (!sessionId) {
+      store.showToast('The debate is still starting - try again in a moment', 'info');
+      return;
+    }
+
+    try {
+      const result = await councilService.pauseDebate(sessionId);
+      if (result.paused) {
+        store.showToast('Pausing after the current advisor finishes...', 'info');
+      } else {
+        store.showToast(result.reason, 'warning');
+      }
+    } catch (error: any) {
+      console.error('Pause failed:', error);
+      store.showToast(error.message || 'Could not pause the debate', 'error');
     }
   }, [store]);
 
+  /**
+   * Resume the paused debate from its checkpoint (works after a page reload)
+   */
+  const resumeDebate = useCallback(async () => {
+    const { pausedDebate, isDebating, isOnline, messages } = useDebateStore.getState();
+    if (!pausedDebate || isDebating) return;
+    if (!isOnline) {
+      store.showToast("You're offline. Check your connection.", 'error');
+      return;
+    }
+
+    // After a reload the page starts empty - bring back the conversation as it was when paused
+    if (messages.length === 0) {
+      store.setMessages(pausedDebate.messages);
+      store.setConversationTitle(pausedDebate.conversationTitle);
+    }
+
+    clearPausedDebate();
+    store.setPausedDebate(null);
+    store.setIsDebating(true);
+    store.setError(null);
+    store.setDebateStartTimestamp(Date.now());
+
+    const config: DebateConfig = { ...pausedDebate.config, resumeFrom: pausedDebate.checkpoint };
+
+    try {
+      // Handler keeps the config without the old checkpoint, so pausing again saves the new one
+      await councilService.startDebate(config, createEventHandler(pausedDebate.config));
+      store.setProgress(100);
+    } catch (error: any) {
+      console.error('Resume failed:', error);
+    } finally {
+      store.setIsDebating(false);
+      store.setSessionId(null);
+    }
+  }, [store, createEventHandler]);
+
+  /**
+   * Drop the paused debate without resuming it
+   */
+  const discardPausedDebate = useCallback(() => {
+    clearPausedDebate();
+    store.setPausedDebate(null);
+  }, [store]);
+
   /**
    * Stop current debate
    */
@@ -120,6 +234,43 @@ export function useDebate() {
     store.showToast('Debate stopped', 'info');
   }, [store]);
 
+  /**
+   * Interject in the running debate without restarting it
+   * Falls back to stopping and asking anew if the server hasn't announced a session yet
+   */
+  const interruptDebate = useCallback(async () => {
+    const { input, sessionId } = useDebateStore.getState();
+    const interruption = input.trim();
+    if (!interruption) return;
+
+    if (!sessionId) {
+      stopDebate();
+      setTimeout(() => startDebate(), 100); // Small delay to ensure clean state
+      return;
+    }
+
+    store.setInput('');
+
+    try {
+      const { interruptionId, timestamp } = await councilService.sendInterruption(sessionId, interruption);
+
+      // The stream may already have echoed it back
+      if (!useDebateStore.getState().messages.some((m) => m.id === interruptionId)) {
+        store.addMessage({
+          id: interruptionId,
+          type: 'interruption',
+          content: interruption,
+          timestamp,
+        });
+      }
+      store.showToast('The council will address this next', 'info');
+    } catch (error: any) {
+      console.error('Interruption failed:', error);
+      store.setInput(interruption);
+      store.showToast(error.message || 'Could not interrupt the debate', 'error');
+    }
+  }, [store, startDebate, stopDebate]);
+
   /**
    * Clear conversation
    */
@@ -140,6 +291,10 @@ export function useDebate() {
     // Actions
     startDebate,
     stopDebate,
+    pauseDebate,
+    resumeDebate,
+    discardPausedDebate,
+    interruptDebate,
     clearConversation,
   };
 }
@@ -151,3 +306,25 @@ function generateTitle(question: string): string {
   const title = question.slice(0, 60);
   return title.length < question.length ? `${title}...` : title;
 }
+
+/**
+ * Collect the advisor responses (most recent rounds only), research and final answer of the last debate
+ */
+function buildPreviousDebate(debateMessages: Message[]): PreviousDebate {
+  const agentResponses: Record<string, string[]> = {};
+
+  for (const message of debateMessages) {
+    if (message.type === 'agent' && message.agent && message.content) {
+      (agentResponses[message.agent] ??= []).push(message.content);
+    }
+  }
+  for (const advisor of Object.keys(agentResponses)) {
+    agentResponses[advisor] = agentResponses[advisor].slice(-MAX_PREVIOUS_ROUNDS);
+  }
+
+  return {
+    agentResponses,
+    finalAnswer: debateMessages.filter(m => m.type === 'final').pop()?.content,
+    researchResults: debateMessages.find(m => m.type === 'system' && m.sources?.length)?.sources,
+  };
+}
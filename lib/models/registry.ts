@@ -0,0 +1,227 @@
+/**
+ * Model Registry
+ * Single source of truth for every model the council can run on
+ * Deployments can add or override models in models.config.json
+ */
+
+import { z } from 'zod';
+import type { ProviderName } from '../providers';
+import modelsConfig from '../../models.config.json';
+
+export type ModelIcon = 'sparkles' | 'brain' | 'zap' | 'server' | 'cpu';
+
+export interface ModelDefinition {
+  id: string; // Key used in settings, requests and saved conversations
+  apiId: string; // Model ID sent to the provider
+  provider: ProviderName;
+  displayName: string;
+  description: string;
+  pricing: {
+    input: number; // USD per million tokens
+    output: number;
+  };
+  contextWindow: number;
+  maxOutputTokens: number;
+  capabilities: {
+    promptCaching: boolean;
+    toolUse: boolean;
+  };
+  speed: string; // Labels for the model comparison
+  quality: string;
+  icon: ModelIcon;
+  color: string; // Tailwind text color class
+}
+
+/**
+ * Validation for entries in models.config.json
+ */
+export const ModelDefinitionSchema = z.object({
+  id: z.string().min(1).max(100),
+  apiId: z.string().min(1).max(200),
+  provider: z.enum(['anthropic', 'openai-compatible', 'mock']),
+  displayName: z.string().min(1).max(50),
+  description: z.string().max(100).default(''),
+  pricing: z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+  }),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive(),
+  capabilities: z.object({
+    promptCaching: z.boolean().default(false),
+    toolUse: z.boolean().default(false),
+  }).default({ promptCaching: false, toolUse: false }),
+  speed: z.string().max(50).default('Unknown'),
+  quality: z.string().max(50).default('Unknown'),
+  icon: z.enum(['sparkles', 'brain', 'zap', 'server', 'cpu']).default('cpu'),
+  color: z.string().max(50).default('text-gray-500'),
+});
+
+const ModelsConfigSchema = z.object({
+  defaultModel: z.string().optional(),
+  models: z.array(ModelDefinitionSchema).default([]),
+});
+
+// Anthropic API pricing (per million tokens) - January 2025
+const BUILT_IN_MODELS: ModelDefinition[] = [
+  {
+    id: 'claude-opus-4-5',
+    apiId: 'claude-opus-4-20250514',
+    provider: 'anthropic',
+    displayName: 'Opus 4.5',
+    description: 'Most capable',
+    pricing: { input: 15.00, output: 75.00 },
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    capabilities: { promptCaching: true, toolUse: true },
+    speed: 'Slower',
+    quality: 'Best',
+    icon: 'sparkles',
+    color: 'text-purple-500',
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    apiId: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+    displayName: 'Sonnet 4.5',
+    description: 'Balanced',
+    pricing: { input: 3.00, output: 15.00 },
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    capabilities: { promptCaching: true, toolUse: true },
+    speed: 'Balanced',
+    quality: 'Great',
+    icon: 'brain',
+    color: 'text-blue-500',
+  },
+  {
+    id: 'claude-haiku-4',
+    apiId: 'claude-3-5-haiku-20241022',
+    provider: 'anthropic',
+    displayName: 'Haiku 4',
+    description: 'Fastest',
+    pricing: { input: 0.80, output: 4.00 },
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    capabilities: { promptCaching: true, toolUse: true },
+    speed: 'Fastest',
+    quality: 'Good',
+    icon: 'zap',
+    color: 'text-green-500',
+  },
+  {
+    id: 'openai-compatible',
+    apiId: 'local-model', // Overridden by OPENAI_COMPATIBLE_MODEL or the per-debate model name
+    provider: 'openai-compatible',
+    displayName: 'Local',
+    description: 'Self-hosted',
+    pricing: { input: 0, output: 0 },
+    contextWindow: 8_192,
+    maxOutputTokens: 2_048,
+    capabilities: { promptCaching: false, toolUse: false },
+    speed: 'Depends on hardware',
+    quality: 'Depends on model',
+    icon: 'server',
+    color: 'text-gray-500',
+  },
+];
+
+/**
+ * Merge built-ins with the deployment config (config entries win on id clashes)
+ */
+function loadRegistry(): { models: Map<string, ModelDefinition>; defaultModel: string } {
+  const models = new Map(BUILT_IN_MODELS.map((model) => [model.id, model]));
+  let defaultModel = 'claude-sonnet-4-5';
+
+  const parsed = ModelsConfigSchema.safeParse(modelsConfig);
+  if (!parsed.success) {
+    console.error('[Models] Ignoring invalid models.config.json:', parsed.error.issues);
+    return { models, defaultModel };
+  }
+
+  for (const model of parsed.data.models) {
+    models.set(model.id, model);
+  }
+
+  if (parsed.data.defaultModel && models.has(parsed.data.defaultModel)) {
+    defaultModel = parsed.data.defaultModel;
+  }
+
+  return { models, defaultModel };
+}
+
+const registry = loadRegistry();
+
+/**
+ * Model ID as used throughout the app (validated against the registry at runtime)
+ */
+export type ModelId = string;
+
+export const DEFAULT_MODEL_ID: ModelId = registry.defaultModel;
+
+/**
+ * All registered models in display order
+ */
+export function listModels(): ModelDefinition[] {
+  return Array.from(registry.models.values());
+}
+
+/**
+ * Check whether a model ID is registered
+ */
+export function isKnownModel(id: string): boolean {
+  return registry.models.has(id);
+}
+
+/**
+ * Look up a model, throwing for unknown IDs
+ */
+export function getModel(id: ModelId): ModelDefinition {
+  const model = registry.models.get(id);
+  if (!model) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+  return model;
+}
+
+/**
+ * Human-readable name for a model ID (falls back to the ID for removed models)
+ */
+export function getModelDisplayName(id: string): string {
+  return registry.models.get(id)?.displayName || id;
+}
+
+/**
+ * Cheapest registered model for a provider (used for lightweight checks like key validation)
+ */
+export function getCheapestModel(provider: ProviderName): ModelDefinition | undefined {
+  return listModels()
+    .filter((model) => model.provider === provider)
+    .sort((a, b) => (a.pricing.input + a.pricing.output) - (b.pricing.input + b.pricing.output))[0];
+}
+
+/**
+ * Per-role model overrides for mixed-model councils
+ * Roles without an override use the debate's default model
+ */
+export interface ModelAssignments {
+  moderator?: ModelId; // Clarification, consensus analysis and final answer
+  advisors?: Record<string, ModelId>; // Keyed by advisor ID
+}
+
+/**
+ * Model that runs a given role ('moderator' or an advisor ID)
+ */
+export function getModelForRole(defaultModel: ModelId, role: string, assignments?: ModelAssignments): ModelId {
+  if (role === 'moderator') {
+    return assignments?.moderator || defaultModel;
+  }
+  return assignments?.advisors?.[role] || defaultModel;
+}
+
+/**
+ * Every model a council will call: the moderator's followed by each advisor's
+ */
+export function getCouncilModels(defaultModel: ModelId, advisors: string[], assignments?: ModelAssignments): ModelId[] {
+  return ['moderator', ...advisors].map((role) => getModelForRole(defaultModel, role, assignments));
+}
@@ -0,0 +1,156 @@
+/**
+ * Anthropic Provider
+ * LLMProvider backed by the Anthropic Messages API with system prompt caching
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { TokenUsage } from '../utils/cost-calculator';
+import type { CompletionRequest, CompletionResult, JsonSchemaOutput, LLMProvider } from './types';
+import { ProviderError, parseRetryAfter } from './errors';
+
+// Error types the API reports inside a stream, mapped to the HTTP status they'd have had
+const STREAM_ERROR_STATUSES: Record<string, number> = {
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Normalize Anthropic usage (cache fields are nullable) into TokenUsage
+ */
+function toTokenUsage(usage: {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Convert SDK failures into ProviderErrors (aborts pass through untouched)
+ */
+function toProviderError(error: unknown): unknown {
+  if (!(error instanceof Anthropic.APIError) || error instanceof Anthropic.APIUserAbortError) {
+    return error;
+  }
+
+  if (error instanceof Anthropic.APIConnectionError) {
+    return new ProviderError(error.message, { retryable: true, cause: error });
+  }
+
+  const streamErrorType = (error.error as { error?: { type?: string } } | undefined)?.error?.type;
+  return new ProviderError(error.message, {
+    status: error.status ?? (streamErrorType ? STREAM_ERROR_STATUSES[streamErrorType] : undefined),
+    retryAfterMs: parseRetryAfter(error.headers),
+    cause: error,
+  });
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    // Retries happen in the orchestrator, where they can be reported and fall back to another model
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  /**
+   * Build Messages API params shared by complete() and stream()
+   */
+  private buildParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      // Enable prompt caching on system prompt (saves 90% on repeated calls)
+      system: [
+        {
+          type: 'text' as const,
+          text: request.system,
+          ...(request.cacheSystemPrompt ? { cache_control: { type: 'ephemeral' as const } } : {}),
+        },
+      ],
+      messages: request.messages,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      return await this.completeRaw(request);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async stream(request: CompletionRequest, onText: (text: string) => void): Promise<CompletionResult> {
+    try {
+      return await this.streamRaw(request, onText);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  private async completeRaw(request: CompletionRequest): Promise<CompletionResult> {
+    if (request.jsonSchema) {
+      return this.completeJson(request, request.jsonSchema);
+    }
+
+    const response = await this.client.messages.create(this.buildParams(request), { signal: request.signal });
+
+    const text = response.content[0]?.type === 'text' ? response.content[0].text : '';
+    return { text, usage: toTokenUsage(response.usage) };
+  }
+
+  /**
+   * Force a single tool call whose input is the requested JSON object
+   */
+  private async completeJson(request: CompletionRequest, output: JsonSchemaOutput): Promise<CompletionResult> {
+    const response = await this.client.messages.create({
+      ...this.buildParams(request),
+      tools: [
+        {
+          name: output.name,
+          description: output.description,
+          input_schema: { type: 'object' as const, ...output.schema },
+        },
+      ],
+      tool_choice: { type: 'tool' as const, name: output.name },
+    }, { signal: request.signal });
+
+    const toolUse = response.content.find((block) => block.type === 'tool_use');
+    const text = toolUse ? JSON.stringify(toolUse.input) : '';
+    return { text, usage: toTokenUsage(response.usage) };
+  }
+
+  private async streamRaw(request: CompletionRequest, onText: (text: string) => void): Promise<CompletionResult> {
+    const response = await this.client.messages.create({
+      ...this.buildParams(request),
+      stream: true,
+    }, { signal: request.signal });
+
+    let text = '';
+    let usage: TokenUsage = toTokenUsage({});
+
+    for await (const event of response) {
+      if (event.type === 'message_start') {
+        // Input and cache tokens are known up front
+        usage = toTokenUsage(event.message.usage);
+      } else if (event.type === 'message_delta') {
+        // output_tokens is cumulative on the final delta
+        usage.outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        onText(event.delta.text);
+      }
+    }
+
+    return { text, usage };
+  }
+}
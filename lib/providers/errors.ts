@@ -0,0 +1,51 @@
+/**
+ * Provider Errors
+ * Backend-neutral failure type so the orchestrator can decide what to retry without knowing the SDK
+ */
+
+// Rate limited, overloaded or a transient upstream failure - the same call may succeed later
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+export interface ProviderErrorOptions {
+  status?: number; // HTTP status (or its equivalent for errors reported mid-stream)
+  retryAfterMs?: number; // Server-requested wait before retrying
+  retryable?: boolean; // Defaults to whether the status is transient
+  cause?: unknown;
+}
+
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUSES.has(options.status));
+  }
+}
+
+/**
+ * Read the wait a server asked for: `retry-after-ms`, else `retry-after` (seconds or an HTTP date)
+ */
+export function parseRetryAfter(headers: Headers | undefined | null): number | undefined {
+  if (!headers) return undefined;
+
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (headers.has('retry-after-ms') && Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
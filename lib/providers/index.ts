@@ -0,0 +1,53 @@
+/**
+ * LLM Providers
+ * Factory for the model backends the council can run against
+ */
+
+import { AnthropicProvider } from './anthropic';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider } from './types';
+import { getModel, isKnownModel } from '../models/registry';
+
+export type { LLMProvider, CompletionRequest, CompletionResult, ChatMessage, CompletionTask, JsonSchemaOutput } from './types';
+export { ProviderError, parseRetryAfter, type ProviderErrorOptions } from './errors';
+export { AnthropicProvider } from './anthropic';
+export { MockProvider, defaultMockScript, type MockScript, type MockProviderOptions } from './mock';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-compatible';
+
+export type ProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
+/**
+ * Pick the provider for a debate
+ * LLM_PROVIDER=mock overrides everything; otherwise the selected model decides
+ */
+export function getConfiguredProviderName(model?: string): ProviderName {
+  if (process.env.LLM_PROVIDER === 'mock') return 'mock';
+  if (model && isKnownModel(model)) return getModel(model).provider;
+  return 'anthropic';
+}
+
+/**
+ * Create a provider instance
+ */
+export function createProvider(name: ProviderName, apiKey?: string): LLMProvider {
+  switch (name) {
+    case 'mock':
+      // Small delay keeps the streaming UI realistic during offline development
+      return new MockProvider({ chunkDelayMs: Number(process.env.MOCK_PROVIDER_DELAY_MS ?? 20) });
+    case 'openai-compatible':
+      // Base URL is server-side only so clients can't point the server at arbitrary hosts
+      if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL not configured');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+    case 'anthropic':
+      if (!apiKey) {
+        throw new Error('Anthropic API key is required');
+      }
+      return new AnthropicProvider(apiKey);
+  }
+}
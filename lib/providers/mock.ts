@@ -0,0 +1,147 @@
+/**
+ * Mock Provider
+ * Deterministic offline LLMProvider that returns canned council responses
+ * Used for local development and exercising the full debate pipeline without an API key
+ */
+
+import { estimateTokens } from '../utils/cost-calculator';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+/**
+ * Produces the response text for a request (callIndex counts from 0)
+ */
+export type MockScript = (request: CompletionRequest, callIndex: number) => string;
+
+export interface MockProviderOptions {
+  script?: MockScript;
+  chunkDelayMs?: number; // Delay between streamed words, to mimic real streaming
+}
+
+const MOCK_ADVISOR_RESPONSES: Record<string, string> = {
+  naval: 'Find the highest-leverage move first. Validate demand with ten real conversations before building anything - code and media scale, your time does not.',
+  elon: 'Run the numbers. If the unit economics don\'t work at small scale, they won\'t magically work at large scale. Build the smallest test you can ship this week.',
+  larry: 'Who are you taking market share from? Without a clear wedge against incumbents you\'re a feature, not a company. Pick a niche you can dominate.',
+  alex: 'The constraint is leads, not product. Get 20 sales conversations this month, track close rate, and only then spend on anything else.',
+  pavel: 'Keep it simple and honest. Grow organically with a product people recommend on their own - avoid tactics you wouldn\'t want done to you.',
+};
+
+/**
+ * Structured consensus analysis for whichever advisors appear in the prompt ("Name (id: x)")
+ */
+function mockConsensus(prompt: string): string {
+  const advisorIds = Array.from(prompt.matchAll(/\(id: ([\w-]+)\)/g), (match) => match[1]);
+
+  return JSON.stringify({
+    consensusReached: true,
+    agreementLevel: 80,
+    confidence: 'medium',
+    agreements: [
+      'Validate demand before investing heavily',
+      'Focus on the current bottleneck rather than polish',
+    ],
+    disagreements: ['How aggressively to pursue competitors'],
+    majorityView: 'Start small, validate with real customers, then scale what works.',
+    minorityViews: advisorIds.includes('larry')
+      ? [{ view: 'Pick a fight with incumbents early.', advisors: ['larry'] }]
+      : [],
+    stances: advisorIds.map((advisor) => ({
+      advisor,
+      stance: advisor === 'larry' ? 'partially_agrees' : 'agrees',
+      position: MOCK_ADVISOR_RESPONSES[advisor]?.split('.')[0] || 'Test the riskiest assumption first',
+    })),
+  });
+}
+
+const MOCK_FINAL_ANSWER = `## Recommendation
+
+Validate demand with real customers before committing significant time or money.
+
+1. **This week:** talk to ten potential customers and ask what they pay for today.
+2. **This month:** ship the smallest version that solves the top problem.
+3. **Next quarter:** double down on the channel that produced paying users.
+
+*Caveat:* Larry would push harder on competitive positioning from day one.
+
+_(Mock response - no model was called.)_`;
+
+const MOCK_STRUCTURED_ANSWER = JSON.stringify({
+  recommendation: 'Validate demand with real customers before committing significant time or money.',
+  confidence: 'medium',
+  actionSteps: [
+    { step: 'Talk to ten potential customers and ask what they pay for today', owner: 'You', timeframe: 'This week' },
+    { step: 'Ship the smallest version that solves the top problem', owner: 'You', timeframe: 'This month' },
+    { step: 'Double down on the channel that produced paying users', owner: 'You', timeframe: 'Next quarter' },
+  ],
+  risks: [
+    { risk: 'Competitors move first while you validate', mitigation: 'Pick a narrow niche you can own early' },
+  ],
+  openQuestions: ['What would customers pay for the first version?'],
+});
+
+/**
+ * Default script: pick a canned response based on the council step and who is speaking
+ * Keyed on request metadata rather than prompts, so custom advisors and edited prompts still get scripted replies
+ */
+export const defaultMockScript: MockScript = (request) => {
+  const prompt = request.messages[request.messages.length - 1]?.content || '';
+
+  switch (request.task) {
+    case 'clarification':
+      return 'CLEAR';
+    case 'consensus':
+      return mockConsensus(prompt);
+    case 'structured_answer':
+      return MOCK_STRUCTURED_ANSWER;
+    case 'final_answer':
+      return MOCK_FINAL_ANSWER;
+  }
+
+  return (request.speaker && MOCK_ADVISOR_RESPONSES[request.speaker]) ||
+    'Focus on the one constraint that matters most right now and test it quickly.';
+};
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private script: MockScript;
+  private chunkDelayMs: number;
+  private callCount = 0;
+
+  constructor(options?: MockProviderOptions) {
+    this.script = options?.script || defaultMockScript;
+    this.chunkDelayMs = options?.chunkDelayMs ?? 0;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    request.signal?.throwIfAborted();
+    const text = this.script(request, this.callCount++);
+    return { text, usage: this.estimateUsage(request, text) };
+  }
+
+  async stream(request: CompletionRequest, onText: (text: string) => void): Promise<CompletionResult> {
+    const text = this.script(request, this.callCount++);
+
+    // Stream word by word (keeping whitespace) so clients see realistic chunks
+    for (const chunk of text.match(/\S+\s*/g) || []) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+      }
+      request.signal?.throwIfAborted();
+      onText(chunk);
+    }
+
+    return { text, usage: this.estimateUsage(request, text) };
+  }
+
+  /**
+   * Deterministic usage so cost tracking works offline
+   */
+  private estimateUsage(request: CompletionRequest, text: string): CompletionResult['usage'] {
+    const input = request.system + request.messages.map((m) => m.content).join('\n');
+    return {
+      inputTokens: estimateTokens(input),
+      outputTokens: estimateTokens(text),
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+    };
+  }
+}
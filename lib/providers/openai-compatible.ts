@@ -0,0 +1,165 @@
+/**
+ * OpenAI-Compatible Provider
+ * LLMProvider for self-hosted servers exposing /v1/chat/completions (llama.cpp, vLLM, Ollama, ...)
+ */
+
+import type { TokenUsage } from '../utils/cost-calculator';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+import { ProviderError, parseRetryAfter } from './errors';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Including the version prefix, e.g. http://localhost:8080/v1
+  apiKey?: string; // Sent as a bearer token if the server requires one
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Convert OpenAI-style usage into TokenUsage (no prompt caching)
+ */
+function toTokenUsage(usage?: ChatCompletionUsage | null): TokenUsage {
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private endpoint: string;
+  private apiKey?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.apiKey = config.apiKey;
+  }
+
+  /**
+   * POST a chat completion request and fail loudly on HTTP errors
+   */
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          messages: [{ role: 'system', content: request.system }, ...request.messages],
+          stream,
+          ...(request.jsonSchema && !stream
+            ? {
+                response_format: {
+                  type: 'json_schema',
+                  json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema },
+                },
+              }
+            : {}),
+          // Ask for a final usage chunk; servers that don't support it simply ignore the field
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      // Server unreachable or connection reset - worth another try
+      throw new ProviderError(`Model server unreachable: ${(error as Error).message}`, { retryable: true, cause: error });
+    }
+
+    if (!response.ok) {
+      throw new ProviderError(`Model server returned ${response.status} ${response.statusText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers),
+      });
+    }
+
+    return response;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    let data;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      // Connection dropped or a truncated body - worth another try
+      throw new ProviderError(`Model server returned an unreadable response: ${(error as Error).message}`, { retryable: true, cause: error });
+    }
+
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      usage: toTokenUsage(data.usage),
+    };
+  }
+
+  async stream(request: CompletionRequest, onText: (text: string) => void): Promise<CompletionResult> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new ProviderError('Model server returned an empty stream', { retryable: true });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage = toTokenUsage();
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === '[DONE]') return;
+
+      let chunk;
+      try {
+        chunk = JSON.parse(payload);
+      } catch (error) {
+        throw new ProviderError('Model server sent a malformed stream chunk', { retryable: true, cause: error });
+      }
+      const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      if (chunk.usage) {
+        usage = toTokenUsage(chunk.usage);
+      }
+    };
+
+    try {
+      while (true) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          // Connection dropped mid-stream
+          throw new ProviderError(`Model server stream failed: ${(error as Error).message}`, { retryable: true, cause: error });
+        }
+        const { done, value } = result;
+        if (done) break;
+
+        // Keep the trailing partial line until the next chunk completes it
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach((line) => handleLine(line.trim()));
+      }
+      handleLine(buffer.trim());
+    } finally {
+      reader.releaseLock();
+    }
+
+    return { text, usage };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * LLM Provider Types
+ * Shared contract between the council orchestrator and model backends
+ */
+
+import type { TokenUsage } from '../utils/cost-calculator';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Which council step a request is for
+ */
+export type CompletionTask = 'clarification' | 'advisor' | 'consensus' | 'final_answer' | 'structured_answer';
+
+export interface CompletionRequest {
+  model: string; // Provider-specific model ID
+  system: string;
+  speaker?: string; // Council seat making the call: advisor ID or 'moderator' (not sent to the model)
+  task?: CompletionTask; // Not sent to the model; lets offline providers script responses
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number; // Sampling temperature (0-1); provider default when omitted
+  cacheSystemPrompt?: boolean; // Ask the provider to cache the system prompt if it can
+  jsonSchema?: JsonSchemaOutput; // Constrain complete() output to a JSON object (text is the JSON)
+  signal?: AbortSignal; // Abort the call (and stop streaming) when this fires
+}
+
+export interface JsonSchemaOutput {
+  name: string; // Tool / schema name, e.g. "report_consensus"
+  description: string;
+  schema: Record<string, unknown>; // JSON schema for the object
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Run a completion and return the full text
+   */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  /**
+   * Run a completion, calling onText for each text chunk as it arrives
+   */
+  stream(request: CompletionRequest, onText: (text: string) => void): Promise<CompletionResult>;
+}
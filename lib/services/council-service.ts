@@ -4,25 +4,67 @@
  * No React dependencies - pure business logic
  */
 
-import type { StreamEvent } from '@/lib/agents/types';
-import type { DebateMode, ClaudeModel } from '@/lib/stores/debate-store';
+import type { StreamEvent, PreviousDebate, DebateCheckpoint } from '@/lib/agents/types';
+import type { DebateMode } from '@/lib/stores/debate-store';
+import type { ModelAssignments, ModelId } from '@/lib/models/registry';
+import type { CustomPersona, ModeratorOverride } from '@/lib/agents/persona-registry';
+import type { SynthesisStyle } from '@/lib/agents/synthesis';
 import { loadApiKeys } from '@/lib/utils/api-keys';
+import { SseParser, SseStreamError } from '@/lib/utils/sse-parser';
 
 export interface DebateConfig {
   question: string;
   conversationHistory: string;
   mode: DebateMode;
+  agreementThreshold?: number;
+  maxRounds?: number;
+  parallelFirstRound?: boolean;
+  synthesisStyle?: SynthesisStyle;
+  consensusQuorum?: number;
+  countPartialAgreement?: boolean;
   advisors: string[];
-  model: ClaudeModel;
+  model: ModelId;
+  modelAssignments?: ModelAssignments;
+  fallbackModel?: ModelId;
+  customPersonas?: CustomPersona[]; // Definitions of the selected custom advisors
+  moderatorOverride?: ModeratorOverride;
+  maxCostUsd?: number;
+  localModelName?: string;
   enableResearch: boolean;
   continueDebate?: boolean;
   regenerate?: boolean;
+  previousDebate?: PreviousDebate;
+  resumeFrom?: DebateCheckpoint; // Resume a paused debate instead of starting over
+}
+
+export interface PersonaTestConfig {
+  persona: Omit<CustomPersona, 'id'>; // Draft being edited (may not be saved yet)
+  question: string;
+  model: ModelId;
+  localModelName?: string;
 }
 
 export type EventHandler = (event: StreamEvent) => void;
 
+// Reconnects after a dropped stream before giving up (the server keeps an unwatched debate ~20s)
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+// The server sends a heartbeat every 15s; this long without a byte means the connection is dead
+const STREAM_IDLE_TIMEOUT_MS = 45_000;
+
+/**
+ * How far the client got through a session's event stream
+ */
+interface StreamProgress {
+  lastEventId: number;
+  done: boolean; // Server sent `done` - nothing more will arrive
+  retryMs?: number; // Reconnect delay requested by the server's `retry:` field
+}
+
 export class CouncilService {
   private abortController: AbortController | null = null;
+  private sessionId: string | null = null;
 
   /**
    * Start a new council debate
@@ -30,6 +72,8 @@ export class CouncilService {
   async startDebate(config: DebateConfig, onEvent: EventHandler): Promise<void> {
     // Create new abort controller for this debate
     this.abortController = new AbortController();
+    this.sessionId = null;
+    const signal = this.abortController.signal;
 
     try {
       // Load API keys from localStorage (if user has configured them)
@@ -44,15 +88,45 @@ export class CouncilService {
           anthropicKey: apiKeys.anthropic,
           tavilyKey: apiKeys.tavily,
         }),
-        signal: this.abortController.signal,
+        signal,
       });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      // Parse Server-Sent Events stream
-      await this.parseStream(response.body!, onEvent);
+      this.sessionId = response.headers.get('X-Debate-Session-Id');
+      const progress: StreamProgress = { lastEventId: 0, done: false };
+      let body: ReadableStream | null = response.body;
+
+      // Parse Server-Sent Events stream, reconnecting with Last-Event-ID if it drops
+      for (let attempt = 0; ; attempt++) {
+        const seenBefore = progress.lastEventId;
+        if (body) {
+          try {
+            await this.parseStream(body, onEvent, progress);
+          } catch (error: any) {
+            if (!(error instanceof SseStreamError)) throw error;
+            console.warn('Debate stream dropped:', error.message);
+          }
+        }
+
+        if (progress.done) break;
+        if (progress.lastEventId > seenBefore) attempt = 0; // Made progress - start backing off afresh
+        if (!this.sessionId || attempt >= MAX_RECONNECT_ATTEMPTS) {
+          throw new Error('Lost connection to the debate');
+        }
+
+        onEvent({
+          type: 'status',
+          content: `Connection lost - reconnecting (attempt ${attempt + 1} of ${MAX_RECONNECT_ATTEMPTS})...`,
+          timestamp: Date.now(),
+        });
+        await new Promise((resolve) => setTimeout(resolve, (progress.retryMs ?? RECONNECT_BASE_DELAY_MS) * 2 ** attempt));
+        signal.throwIfAborted();
+
+        body = await this.reconnect(this.sessionId, progress.lastEventId, signal);
+      }
 
     } catch (error: any) {
       // Don't throw on abort - that's intentional
@@ -81,35 +155,191 @@ export class CouncilService {
       this.abortController.abort();
       this.abortController = null;
     }
+
+    // Closing the stream alone leaves the server a reconnect grace period - cancel right away
+    if (this.sessionId) {
+      fetch(`/api/council/stream?sessionId=${encodeURIComponent(this.sessionId)}`, {
+        method: 'DELETE',
+        keepalive: true,
+      }).catch(() => {
+        // Best effort - the server cancels on its own once the grace period ends
+      });
+      this.sessionId = null;
+    }
+  }
+
+  /**
+   * Reopen a session's stream, replaying events after lastEventId
+   * Returns null on network errors (worth retrying); throws if the session can't be resumed
+   */
+  private async reconnect(sessionId: string, lastEventId: number, signal: AbortSignal): Promise<ReadableStream | null> {
+    let response: Response;
+    try {
+      response = await fetch(`/api/council/stream?sessionId=${encodeURIComponent(sessionId)}`, {
+        headers: { 'Last-Event-ID': String(lastEventId) },
+        signal,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      return null;
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      throw new Error('The debate can no longer be resumed - please start it again');
+    }
+    if (!response.ok) {
+      return null;
+    }
+
+    return response.body;
   }
 
   /**
-   * Parse SSE stream and emit events
+   * Ask a running debate to pause after the current advisor turn (or the whole batch when Round 1 runs in parallel)
+   * The stream then ends with a `paused` event carrying the checkpoint
+   * Resolves with the reason if the debate is already wrapping up and can't pause any more
    */
-  private async parseStream(stream: ReadableStream, onEvent: EventHandler): Promise<void> {
+  async pauseDebate(sessionId: string): Promise<{ paused: true } | { paused: false; reason: string }> {
+    const response = await fetch('/api/council/pause', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 409) {
+        return { paused: false, reason: data.error || 'The debate can no longer be paused' };
+      }
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return { paused: true };
+  }
+
+  /**
+   * Queue an interruption into a running debate
+   * The stream stays open; the next advisor turn responds to it
+   */
+  async sendInterruption(
+    sessionId: string,
+    interruption: string
+  ): Promise<{ interruptionId: string; timestamp: number }> {
+    const response = await fetch('/api/council/interrupt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, interruption }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { interruptionId: data.interruptionId, timestamp: data.timestamp };
+  }
+
+  /**
+   * Stream one draft persona's answer to a sample question (persona editor test-drive)
+   * Independent of any running debate; abort with the given signal
+   */
+  async testPersona(config: PersonaTestConfig, onEvent: EventHandler, signal: AbortSignal): Promise<void> {
+    const apiKeys = loadApiKeys();
+
+    const response = await fetch('/api/council/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...config, anthropicKey: apiKeys.anthropic }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    if (!response.body) {
+      throw new Error('No response from the test run');
+    }
+
+    await this.parseStream(response.body, onEvent, { lastEventId: 0, done: false });
+  }
+
+  /**
+   * Parse the SSE stream and emit events
+   * A malformed event is logged and skipped; a dropped or truncated stream throws SseStreamError
+   */
+  private async parseStream(stream: ReadableStream, onEvent: EventHandler, progress: StreamProgress): Promise<void> {
     const reader = stream.getReader();
     const decoder = new TextDecoder();
 
+    const parser = new SseParser((message) => {
+      // Only unnamed events carry StreamEvents
+      if (message.event !== 'message') return;
+
+      const id = Number(message.id);
+      if (Number.isInteger(id) && id > progress.lastEventId) {
+        progress.lastEventId = id;
+      }
+
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (error) {
+        console.warn(`[SSE] Skipping malformed event ${message.id || '(no id)'}:`, (error as Error).message, message.data.slice(0, 200));
+        return;
+      }
+
+      if (event.type === 'done') {
+        progress.done = true;
+        return;
+      }
+
+      try {
+        onEvent(event);
+      } catch (error) {
+        // A handler bug shouldn't take the stream down with it
+        console.error('[SSE] Event handler failed:', error);
+      }
+    });
+
+    // A half-open connection never errors - cancel the read once it has gone quiet too long
+    let idle = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        idle = true;
+        reader.cancel().catch(() => {});
+      }, STREAM_IDLE_TIMEOUT_MS);
+    };
+
     try {
       while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const event: StreamEvent = JSON.parse(line.slice(6));
-              onEvent(event);
-            } catch (e) {
-              console.error('Failed to parse event:', e);
-            }
-          }
+        resetIdleTimer();
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error: any) {
+          if (error.name === 'AbortError') throw error;
+          throw new SseStreamError('Connection to the debate dropped', { cause: error });
         }
+
+        if (idle) {
+          throw new SseStreamError(`No data from the debate for ${STREAM_IDLE_TIMEOUT_MS / 1000}s`);
+        }
+        if (result.done) break;
+        // stream: true keeps multi-byte characters split across chunks intact
+        parser.feed(decoder.decode(result.value, { stream: true }));
+      }
+
+      parser.feed(decoder.decode());
+      if (parser.retry !== null) {
+        progress.retryMs = parser.retry;
+      }
+      if (!parser.end()) {
+        throw new SseStreamError('Debate stream ended in the middle of an event');
       }
     } finally {
+      clearTimeout(idleTimer);
       reader.releaseLock();
     }
   }
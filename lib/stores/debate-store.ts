@@ -4,8 +4,15 @@
  */
 
 import { create } from 'zustand';
-import type { StreamEvent } from '@/lib/agents/types';
+import type { StreamEvent, ConsensusAnalysis, ConsensusCheck, StructuredFinalAnswer } from '@/lib/agents/types';
 import { getSmartDefaults } from '@/lib/utils/memory-system';
+import type { CostEstimate, DebateCostReport } from '@/lib/utils/cost-calculator';
+import { DEFAULT_MODEL_ID, isKnownModel, type ModelAssignments, type ModelId } from '@/lib/models/registry';
+import { loadPausedDebate, type PausedDebate } from '@/lib/utils/paused-debate';
+import { loadCustomPersonas, saveCustomPersonas, loadModeratorOverride, saveModeratorOverride } from '@/lib/utils/custom-personas';
+import { ADVISOR_NAMES } from '@/lib/agents/personas';
+import { PersonaRegistry, type CustomPersona, type ModeratorOverride } from '@/lib/agents/persona-registry';
+import type { SynthesisStyle } from '@/lib/agents/synthesis';
 
 export interface Message {
   id: string;
@@ -16,6 +23,8 @@ export interface Message {
   isStreaming?: boolean;
   rating?: number;
   sources?: Source[];
+  structuredAnswer?: StructuredFinalAnswer; // Action plan attached to a final answer
+  completedSteps?: number[]; // Indexes of action steps the user has ticked off
 }
 
 export interface Source {
@@ -30,15 +39,24 @@ export interface Toast {
   type: 'success' | 'error' | 'info' | 'warning';
 }
 
-export type DebateMode = 'quick' | 'standard' | 'deep';
-export type ClaudeModel = 'claude-opus-4-5' | 'claude-sonnet-4-5' | 'claude-haiku-4';
+export type DebateMode = 'quick' | 'standard' | 'deep' | 'adaptive';
 
 export interface DebateSettings {
   mode: DebateMode;
+  agreementThreshold?: number; // Adaptive mode: agreement level (0-1) that ends the debate
+  maxRounds?: number; // Adaptive mode: round ceiling
+  parallelFirstRound?: boolean; // Round 1 runs all advisors at once, blind to each other
+  synthesisStyle?: SynthesisStyle; // How the moderator writes the final answer
+  consensusQuorum?: number; // Advisors who must agree for consensus (default 3)
+  countPartialAgreement?: boolean; // Partial agreement counts toward the quorum (default true)
   selectedAdvisors: string[];
   showSettings: boolean;
-  model: ClaudeModel;
+  model: ModelId;
+  modelAssignments?: ModelAssignments; // Per-role overrides of `model` (mixed-model councils)
+  fallbackModel?: ModelId; // Advisors retry on this model when theirs is overloaded
+  maxCostUsd?: number; // Spending cap per debate (wraps up early instead of exceeding it)
   enableResearch: boolean;
+  localModelName?: string; // Model name on the self-hosted server (openai-compatible only)
 }
 
 interface DebateState {
@@ -47,6 +65,10 @@ interface DebateState {
   input: string;
   isDebating: boolean;
   currentRound: number;
+  sessionId: string | null; // Server session of the running debate (target for interruptions)
+  pausedDebate: PausedDebate | null; // Checkpoint of a paused debate, restored after reloads
+  customPersonas: CustomPersona[]; // User-defined advisors (persisted in localStorage)
+  moderatorOverride: ModeratorOverride | null; // Customized moderator fields (persisted in localStorage)
 
   // UI state
   toasts: Toast[];
@@ -62,6 +84,13 @@ interface DebateState {
   elapsedTime: number;
   debateStartTimestamp: number;
 
+  // Cost tracking (estimate before the debate, real usage as it runs)
+  costEstimate: CostEstimate | null;
+  actualCost: DebateCostReport | null;
+
+  // Moderator's consensus analysis, keyed by the round it was run after
+  consensusByRound: Record<number, ConsensusAnalysis>;
+
   // Research state
   isResearching: boolean;
   researchQuery: string;
@@ -89,6 +118,10 @@ interface DebateState {
   addMessage: (message: Message) => void;
   updateLastMessage: (update: Partial<Message>) => void;
   setIsDebating: (isDebating: boolean) => void;
+  setSessionId: (sessionId: string | null) => void;
+  setPausedDebate: (pausedDebate: PausedDebate | null) => void;
+  setCustomPersonas: (customPersonas: CustomPersona[]) => void;
+  setModeratorOverride: (moderatorOverride: ModeratorOverride | null) => void;
   setCurrentRound: (round: number) => void;
   setProgress: (progress: number) => void;
   setError: (error: string | null) => void;
@@ -106,6 +139,9 @@ interface DebateState {
   setTimeEstimate: (estimate: number) => void;
   setRateLimitInfo: (info: { isLimited: boolean; resetTime?: number } | null) => void;
   setApiKeysValid: (valid: boolean) => void;
+  setRetryCount: (retryCount: number) => void;
+  resetCost: () => void;
+  resetConsensus: () => void;
 
   // Actions - Business Logic
   showToast: (message: string, type: Toast['type']) => void;
@@ -118,14 +154,23 @@ interface DebateState {
 }
 
 // Initial state with smart defaults
-const getInitialState = (): Pick<DebateState, 'messages' | 'input' | 'isDebating' | 'currentRound' | 'toasts' | 'error' | 'progress' | 'copiedId' | 'conversationTitle' | 'editingTitle' | 'followUpSuggestions' | 'timeEstimate' | 'elapsedTime' | 'debateStartTimestamp' | 'isResearching' | 'researchQuery' | 'currentStatus' | 'statusHistory' | 'showHistory' | 'showAnalytics' | 'apiKeysValid' | 'rateLimitInfo' | 'isOnline' | 'retryCount' | 'settings'> => {
+const getInitialState = (): Pick<DebateState, 'messages' | 'input' | 'isDebating' | 'currentRound' | 'sessionId' | 'pausedDebate' | 'customPersonas' | 'moderatorOverride' | 'toasts' | 'error' | 'progress' | 'copiedId' | 'conversationTitle' | 'editingTitle' | 'followUpSuggestions' | 'timeEstimate' | 'elapsedTime' | 'debateStartTimestamp' | 'costEstimate' | 'actualCost' | 'consensusByRound' | 'isResearching' | 'researchQuery' | 'currentStatus' | 'statusHistory' | 'showHistory' | 'showAnalytics' | 'apiKeysValid' | 'rateLimitInfo' | 'isOnline' | 'retryCount' | 'settings'> => {
   const smartDefaults = typeof window !== 'undefined' ? getSmartDefaults() : null;
+  const customPersonas = loadCustomPersonas();
+
+  // Remembered advisors may include custom ones that have since been deleted
+  const registry = new PersonaRegistry(customPersonas);
+  const rememberedAdvisors = (smartDefaults?.advisors || []).filter((id) => registry.isAdvisor(id));
 
   return {
     messages: [],
     input: '',
     isDebating: false,
     currentRound: 0,
+    sessionId: null,
+    pausedDebate: typeof window !== 'undefined' ? loadPausedDebate() : null,
+    customPersonas,
+    moderatorOverride: loadModeratorOverride(),
     toasts: [],
     error: null,
     progress: 0,
@@ -136,6 +181,9 @@ const getInitialState = (): Pick<DebateState, 'messages' | 'input' | 'isDebating
     timeEstimate: 0,
     elapsedTime: 0,
     debateStartTimestamp: 0,
+    costEstimate: null,
+    actualCost: null,
+    consensusByRound: {},
     isResearching: false,
     researchQuery: '',
     currentStatus: '',
@@ -148,20 +196,80 @@ const getInitialState = (): Pick<DebateState, 'messages' | 'input' | 'isDebating
     retryCount: 0,
     settings: {
       mode: (smartDefaults?.mode as DebateMode) || 'standard',
-      selectedAdvisors: smartDefaults?.advisors || ['naval', 'elon', 'larry', 'alex', 'pavel'],
+      selectedAdvisors: rememberedAdvisors.length >= 2 ? rememberedAdvisors : [...ADVISOR_NAMES],
       showSettings: false,
-      model: (smartDefaults?.model as ClaudeModel) || 'claude-sonnet-4-5',
+      model: smartDefaults?.model && isKnownModel(smartDefaults.model) ? smartDefaults.model : DEFAULT_MODEL_ID,
       enableResearch: false, // Never default to true - research only activates via keyword
     },
   };
 };
 
+/**
+ * Index of the message an agent stream event belongs to
+ * Events carry a per-turn messageId; older servers without one fall back to the agent's latest streaming message
+ */
+function findStreamMessageIndex(messages: Message[], event: StreamEvent): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (event.messageId
+      ? message.id === event.messageId
+      : message.isStreaming && (!event.agent || message.agent === event.agent)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Create a streaming agent message (from agent_start, or a chunk that arrived before it)
+ */
+function createAgentMessage(event: StreamEvent): Message {
+  return {
+    id: event.messageId || `${event.agent}-${event.timestamp}`,
+    type: 'agent',
+    agent: event.agent,
+    content: '',
+    timestamp: event.timestamp,
+    isStreaming: true,
+    rating: 0,
+  };
+}
+
 export const useDebateStore = create<DebateState>((set, get) => ({
   ...getInitialState(),
 
   // Simple setters
   setInput: (input) => set({ input }),
   setIsDebating: (isDebating) => set({ isDebating }),
+  setSessionId: (sessionId) => set({ sessionId }),
+  setPausedDebate: (pausedDebate) => set({ pausedDebate }),
+  setCustomPersonas: (customPersonas) => {
+    saveCustomPersonas(customPersonas);
+
+    // Deselect and unassign advisors that no longer exist
+    const registry = new PersonaRegistry(customPersonas);
+    set((state) => {
+      const selectedAdvisors = state.settings.selectedAdvisors.filter((id) => registry.isAdvisor(id));
+      const assignedAdvisors = state.settings.modelAssignments?.advisors;
+      return {
+        customPersonas,
+        settings: {
+          ...state.settings,
+          selectedAdvisors: selectedAdvisors.length >= 2 ? selectedAdvisors : [...ADVISOR_NAMES],
+          modelAssignments: assignedAdvisors
+            ? {
+                ...state.settings.modelAssignments,
+                advisors: Object.fromEntries(Object.entries(assignedAdvisors).filter(([id]) => registry.isAdvisor(id))),
+              }
+            : state.settings.modelAssignments,
+        },
+      };
+    });
+  },
+  setModeratorOverride: (moderatorOverride) => {
+    saveModeratorOverride(moderatorOverride);
+    set({ moderatorOverride });
+  },
   setCurrentRound: (currentRound) => set({ currentRound }),
   setProgress: (progress) => set({ progress }),
   setError: (error) => set({ error }),
@@ -181,6 +289,9 @@ export const useDebateStore = create<DebateState>((set, get) => ({
   setTimeEstimate: (timeEstimate) => set({ timeEstimate }),
   setRateLimitInfo: (rateLimitInfo) => set({ rateLimitInfo }),
   setApiKeysValid: (apiKeysValid) => set({ apiKeysValid }),
+  setRetryCount: (retryCount) => set({ retryCount }),
+  resetCost: () => set({ costEstimate: null, actualCost: null }),
+  resetConsensus: () => set({ consensusByRound: {} }),
 
   // Complex setters (functional updates)
   setMessages: (messages) => set((state) => ({
@@ -225,6 +336,7 @@ export const useDebateStore = create<DebateState>((set, get) => ({
     messages: [],
     conversationTitle: '',
     followUpSuggestions: [],
+    consensusByRound: {},
     error: null,
   }),
 
@@ -235,6 +347,52 @@ export const useDebateStore = create<DebateState>((set, get) => ({
     const state = get();
 
     switch (event.type) {
+      case 'session':
+        if (event.data?.sessionId) {
+          set({ sessionId: event.data.sessionId });
+        }
+        break;
+
+      case 'interruption':
+        // The sender already shows its own interruption; this covers other tabs on the same session
+        if (event.content && !state.messages.some((m) => m.id === event.data?.id)) {
+          state.addMessage({
+            id: event.data?.id || `interruption-${event.timestamp}`,
+            type: 'interruption',
+            content: event.content,
+            timestamp: event.timestamp,
+          });
+        }
+        state.setCurrentStatus('The council is responding to your interruption...');
+        break;
+
+      case 'paused':
+        if (event.content) {
+          state.setCurrentStatus(event.content);
+        }
+        break;
+
+      case 'cost_estimate':
+        if (event.data) {
+          set({ costEstimate: event.data });
+        }
+        break;
+
+      case 'cost_actual':
+        if (event.data) {
+          set({ actualCost: event.data });
+        }
+        break;
+
+      case 'consensus_check':
+        if (event.data) {
+          const { round, analysis } = event.data as ConsensusCheck;
+          set((state) => ({
+            consensusByRound: { ...state.consensusByRound, [round]: analysis },
+          }));
+        }
+        break;
+
       case 'research_start':
         set({ isResearching: true, researchQuery: event.content || 'Searching...' });
         break;
@@ -256,26 +414,24 @@ export const useDebateStore = create<DebateState>((set, get) => ({
         break;
 
       case 'agent_start':
-        if (event.agent) {
-          state.addMessage({
-            id: `${event.agent}-${event.timestamp}`,
-            type: 'agent',
-            agent: event.agent,
-            content: '',
-            timestamp: event.timestamp,
-            isStreaming: true,
-            rating: 0,
-          });
+        // Chunks may beat their start event; don't create the message twice
+        if (event.agent && (!event.messageId || findStreamMessageIndex(state.messages, event) === -1)) {
+          state.addMessage(createAgentMessage(event));
         }
         break;
 
       case 'agent_response':
+        // Several agents may stream at once, so route chunks by message ID rather than position
         if (event.agent && event.content) {
           set((state) => {
             const messages = [...state.messages];
-            const lastMessage = messages[messages.length - 1];
-            if (lastMessage && lastMessage.agent === event.agent && lastMessage.isStreaming) {
-              lastMessage.content += event.content;
+            let index = findStreamMessageIndex(messages, event);
+            if (index === -1 && event.messageId) {
+              messages.push(createAgentMessage(event));
+              index = messages.length - 1;
+            }
+            if (index !== -1) {
+              messages[index] = { ...messages[index], content: messages[index].content + event.content };
             }
             return { messages };
           });
@@ -285,9 +441,9 @@ export const useDebateStore = create<DebateState>((set, get) => ({
       case 'agent_complete':
         set((state) => {
           const messages = [...state.messages];
-          const lastMessage = messages[messages.length - 1];
-          if (lastMessage && lastMessage.isStreaming) {
-            lastMessage.isStreaming = false;
+          const index = findStreamMessageIndex(messages, event);
+          if (index !== -1) {
+            messages[index] = { ...messages[index], isStreaming: false };
           }
           return { messages };
         });
@@ -302,7 +458,7 @@ export const useDebateStore = create<DebateState>((set, get) => ({
             }
           }
           state.addMessage({
-            id: `moderator-${event.timestamp}`,
+            id: event.messageId || `moderator-${event.timestamp}`,
             type: 'moderator',
             content: event.content,
             timestamp: event.timestamp,
@@ -338,16 +494,47 @@ export const useDebateStore = create<DebateState>((set, get) => ({
 
       case 'final_answer':
         if (event.content) {
+          const id = event.messageId || `final-${event.timestamp}`;
+          const structuredAnswer = event.data as StructuredFinalAnswer | undefined;
+
+          // The answer is re-sent with its structured plan once that's extracted
+          if (state.messages.some((m) => m.id === id)) {
+            if (structuredAnswer) {
+              state.setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, structuredAnswer } : m)));
+            }
+          } else {
+            state.addMessage({
+              id,
+              type: 'final',
+              content: event.content,
+              timestamp: event.timestamp,
+              structuredAnswer,
+            });
+          }
+        }
+        break;
+
+      case 'status':
+        if (event.content) {
+          state.setCurrentStatus(event.content);
+        }
+        break;
+
+      case 'budget_reached':
+        if (event.content) {
+          state.setCurrentStatus(event.content);
           state.addMessage({
-            id: `final-${event.timestamp}`,
-            type: 'final',
+            id: `system-${event.timestamp}`,
+            type: 'system',
             content: event.content,
             timestamp: event.timestamp,
           });
+          state.showToast('Spending cap reached - wrapping up the debate', 'warning');
         }
         break;
 
-      case 'status':
+      case 'retry':
+        state.setRetryCount(event.retryCount ?? state.retryCount + 1);
         if (event.content) {
           state.setCurrentStatus(event.content);
         }
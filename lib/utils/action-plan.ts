@@ -0,0 +1,69 @@
+/**
+ * Action Plan Formatting
+ * Renders the structured final answer for exports (markdown, plain text)
+ */
+
+import type { StructuredFinalAnswer } from '@/lib/agents/types';
+
+/**
+ * Owner and timeframe suffix for a step, e.g. " (You, this week)"
+ */
+export function formatStepDetails(step: StructuredFinalAnswer['actionSteps'][number]): string {
+  const details = [step.owner, step.timeframe].filter(Boolean).join(', ');
+  return details ? ` (${details})` : '';
+}
+
+/**
+ * Markdown action plan with a checklist of steps (completed steps are ticked)
+ */
+export function formatActionPlanMarkdown(answer: StructuredFinalAnswer, completedSteps: number[] = []): string {
+  let markdown = `### Action Plan\n\n`;
+  markdown += `**Recommendation:** ${answer.recommendation}\n\n`;
+  markdown += `**Confidence:** ${answer.confidence}\n\n`;
+
+  if (answer.actionSteps.length > 0) {
+    markdown += `**Steps:**\n\n`;
+    answer.actionSteps.forEach((step, i) => {
+      const check = completedSteps.includes(i) ? 'x' : ' ';
+      markdown += `- [${check}] ${i + 1}. ${step.step}${formatStepDetails(step)}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (answer.risks.length > 0) {
+    markdown += `**Risks:**\n\n`;
+    answer.risks.forEach((risk) => {
+      markdown += `- ${risk.risk}${risk.mitigation ? ` — *Mitigation:* ${risk.mitigation}` : ''}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (answer.openQuestions.length > 0) {
+    markdown += `**Open Questions:**\n\n`;
+    answer.openQuestions.forEach((question) => {
+      markdown += `- ${question}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Plain-text action plan for copying to the clipboard
+ */
+export function formatActionPlanText(answer: StructuredFinalAnswer, completedSteps: number[] = []): string {
+  const lines = [`Action Plan (${answer.confidence} confidence)`, `Recommendation: ${answer.recommendation}`];
+
+  answer.actionSteps.forEach((step, i) => {
+    lines.push(`[${completedSteps.includes(i) ? 'x' : ' '}] ${i + 1}. ${step.step}${formatStepDetails(step)}`);
+  });
+  answer.risks.forEach((risk) => {
+    lines.push(`Risk: ${risk.risk}${risk.mitigation ? ` (mitigation: ${risk.mitigation})` : ''}`);
+  });
+  answer.openQuestions.forEach((question) => {
+    lines.push(`Open question: ${question}`);
+  });
+
+  return lines.join('\n');
+}
@@ -19,6 +19,9 @@ export interface DebateAnalytics {
   wasInterrupted: boolean;
   questionLength: number;
   answerLength: number;
+  estimatedCost?: number; // USD, from the pre-debate estimate
+  actualCost?: number; // USD, from real API usage
+  totalTokens?: number;
 }
 
 export interface AnalyticsSummary {
@@ -53,6 +56,10 @@ export interface AnalyticsSummary {
   errorRate: number;
   interruptionRate: number;
 
+  // Cost metrics (only debates with recorded usage)
+  totalActualCost: number;
+  averageActualCost: number;
+
   // Time-based metrics
   debatesByDay: Record<string, number>;
   debatesByHour: Record<number, number>;
@@ -140,6 +147,8 @@ export function getAnalyticsSummary(): AnalyticsSummary {
       averageRoundCount: 0,
       errorRate: 0,
       interruptionRate: 0,
+      totalActualCost: 0,
+      averageActualCost: 0,
       debatesByDay: {},
       debatesByHour: {},
     };
@@ -199,6 +208,10 @@ export function getAnalyticsSummary(): AnalyticsSummary {
   const errorRate = (analytics.filter(a => a.hadErrors).length / totalDebates) * 100;
   const interruptionRate = (analytics.filter(a => a.wasInterrupted).length / totalDebates) * 100;
 
+  // Cost metrics
+  const costedDebates = analytics.filter(a => a.actualCost !== undefined);
+  const totalActualCost = costedDebates.reduce((sum, a) => sum + (a.actualCost || 0), 0);
+
   // Time-based metrics
   const debatesByDay: Record<string, number> = {};
   const debatesByHour: Record<number, number> = {};
@@ -227,6 +240,8 @@ export function getAnalyticsSummary(): AnalyticsSummary {
     averageRoundCount,
     errorRate,
     interruptionRate,
+    totalActualCost,
+    averageActualCost: costedDebates.length > 0 ? totalActualCost / costedDebates.length : 0,
     debatesByDay,
     debatesByHour,
   };
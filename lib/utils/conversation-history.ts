@@ -0,0 +1,110 @@
+/**
+ * Conversation History Utilities
+ * Parses and trims the multi-turn history sent with follow-up questions
+ */
+
+import { estimateTokens } from './cost-calculator';
+
+export interface HistoryTurn {
+  speaker: 'user' | 'moderator' | 'answer' | 'interruption';
+  content: string;
+}
+
+// Prefixes written by useDebate when it serializes the conversation
+const SPEAKER_PREFIXES: Record<string, HistoryTurn['speaker']> = {
+  'User': 'user',
+  'Moderator': 'moderator',
+  'Previous Answer': 'answer',
+  'User Interruption': 'interruption',
+};
+
+const SPEAKER_LABELS: Record<HistoryTurn['speaker'], string> = {
+  user: 'User',
+  moderator: 'Moderator',
+  answer: 'Previous Answer',
+  interruption: 'User Interruption',
+};
+
+const TURN_PATTERN = /^(User Interruption|Previous Answer|Moderator|User): /;
+
+// A single turn (usually a long final answer) may use at most this share of the budget
+const MAX_TURN_SHARE = 0.5;
+
+/**
+ * Parse a serialized conversation history into turns
+ * Lines that don't start a new turn belong to the previous one (multi-line answers)
+ */
+export function parseConversationHistory(history: string): HistoryTurn[] {
+  const turns: HistoryTurn[] = [];
+
+  for (const line of history.split('\n')) {
+    const match = line.match(TURN_PATTERN);
+    if (match) {
+      turns.push({
+        speaker: SPEAKER_PREFIXES[match[1]],
+        content: line.slice(match[0].length),
+      });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].content += `\n${line}`;
+    }
+  }
+
+  return turns
+    .map((turn) => ({ ...turn, content: turn.content.trim() }))
+    .filter((turn) => turn.content.length > 0);
+}
+
+/**
+ * Serialize turns back into the prompt format
+ */
+export function formatConversationHistory(turns: HistoryTurn[]): string {
+  return turns
+    .map((turn) => `${SPEAKER_LABELS[turn.speaker]}: ${turn.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Truncate text to roughly the given number of tokens
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  return `${text.slice(0, Math.max(0, maxTokens * 4)).trimEnd()} [...]`;
+}
+
+/**
+ * Keep the most recent turns that fit within a token budget
+ * Moderator status lines are dropped - they carry no content the advisors need
+ */
+export function trimConversationHistory(history: string, maxTokens: number): string {
+  if (!history.trim() || maxTokens <= 0) {
+    return '';
+  }
+
+  const turns = parseConversationHistory(history).filter((turn) => turn.speaker !== 'moderator');
+  const maxTurnTokens = Math.floor(maxTokens * MAX_TURN_SHARE);
+
+  const kept: HistoryTurn[] = [];
+  let usedTokens = 0;
+
+  // Walk backwards so the newest context survives
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const content = truncateToTokens(turns[i].content, maxTurnTokens);
+    const tokens = estimateTokens(content) + 5; // speaker label + separator
+
+    if (usedTokens + tokens > maxTokens) {
+      break;
+    }
+
+    kept.unshift({ ...turns[i], content });
+    usedTokens += tokens;
+  }
+
+  const omitted = turns.length - kept.length;
+  const formatted = formatConversationHistory(kept);
+
+  return omitted > 0 && formatted
+    ? `[${omitted} earlier turn${omitted === 1 ? '' : 's'} omitted]\n\n${formatted}`
+    : formatted;
+}
@@ -3,6 +3,8 @@
  * Manages localStorage-based conversation history with search and CRUD operations
  */
 
+import { formatActionPlanMarkdown } from './action-plan';
+
 export interface ConversationHistoryItem {
   id: string;
   title: string;
@@ -302,6 +304,9 @@ export function exportConversationAsMarkdown(conversation: ConversationHistoryIt
       markdown += `### Moderator\n\n${msg.content}\n\n`;
     } else if (msg.type === 'final') {
       markdown += `### Final Answer\n\n${msg.content}\n\n`;
+      if (msg.structuredAnswer) {
+        markdown += formatActionPlanMarkdown(msg.structuredAnswer, msg.completedSteps);
+      }
     }
   });
 
@@ -3,24 +3,16 @@
  * Estimates and tracks token usage and costs
  */
 
-export type ClaudeModel = 'claude-opus-4-5' | 'claude-sonnet-4-5' | 'claude-haiku-4';
-export type DebateMode = 'quick' | 'standard' | 'deep';
-
-// Anthropic API pricing (per million tokens) - January 2025
-const PRICING = {
-  'claude-opus-4-5': {
-    input: 15.00,   // $15 per MTok
-    output: 75.00,  // $75 per MTok
-  },
-  'claude-sonnet-4-5': {
-    input: 3.00,    // $3 per MTok
-    output: 15.00,  // $15 per MTok
-  },
-  'claude-haiku-4': {
-    input: 0.80,    // $0.80 per MTok
-    output: 4.00,   // $4 per MTok
-  },
-};
+import { getModel, listModels, type ModelId } from '../models/registry';
+
+export type DebateMode = 'quick' | 'standard' | 'deep' | 'adaptive';
+
+// Adaptive debates stop early on agreement or stalls; this is their default ceiling
+export const ADAPTIVE_DEFAULT_MAX_ROUNDS = 4;
+
+// Prompt caching multipliers applied to the input price
+const CACHE_WRITE_MULTIPLIER = 1.25; // Writing a 5-minute ephemeral cache entry
+const CACHE_READ_MULTIPLIER = 0.10;  // Reading from cache
 
 // Average token counts based on empirical data
 const AVG_TOKENS = {
@@ -29,6 +21,7 @@ const AVG_TOKENS = {
   researchContext: 300,     // Research findings added to context
   moderatorAnalysis: 500,   // Moderator consensus analysis
   finalAnswer: 800,         // Final synthesized answer
+  structuredAnswer: 400,    // Action plan extracted from the final answer
 };
 
 export interface CostEstimate {
@@ -41,104 +34,299 @@ export interface CostEstimate {
     finalAnswer: number;
     research?: number;
   };
-  model: ClaudeModel;
+  model: ModelId;
   mode: DebateMode;
   advisorCount: number;
+  roleModels?: RoleModels; // Present for mixed-model councils
 }
 
 export interface ActualCost {
   inputTokens: number;
   outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalCost: number;
+  model: ModelId;
+  timestamp: number;
+}
+
+export type CostPhase = 'clarification' | 'advisor' | 'consensus' | 'final_answer' | 'structured_answer';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
   totalCost: number;
-  model: ClaudeModel;
+  calls: number;
+}
+
+export interface DebateCostReport {
+  model: ModelId;
+  total: UsageTotals;
+  byAdvisor: Record<string, UsageTotals>;
+  byModel: Record<ModelId, UsageTotals>;
+  byPhase: Partial<Record<CostPhase, UsageTotals>>;
   timestamp: number;
 }
 
+/**
+ * Number of rounds a mode runs (for adaptive mode, the most it can run)
+ */
+export function getModeRounds(mode: DebateMode, maxRounds?: number): number {
+  switch (mode) {
+    case 'quick':
+      return 1;
+    case 'standard':
+      return 2;
+    case 'deep':
+      return 3;
+    case 'adaptive':
+      return maxRounds ?? ADAPTIVE_DEFAULT_MAX_ROUNDS;
+  }
+}
+
+/**
+ * Rough token count for a piece of text (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Models used by each role of a mixed-model council
+ */
+export interface RoleModels {
+  advisors: ModelId[]; // One entry per participating advisor
+  moderator: ModelId;
+}
+
+/**
+ * Cost of a number of tokens at a model's prices
+ */
+function priceTokens(model: ModelId, inputTokens: number, outputTokens: number): number {
+  const pricing = getModel(model).pricing;
+  return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output;
+}
+
+/**
+ * Expected cost of one call from its prompt text and expected output size
+ * Used to check a spending cap before making the call
+ */
+export function estimateCallCost(model: ModelId, prompt: string, outputTokens: number): number {
+  return priceTokens(model, estimateTokens(prompt), outputTokens);
+}
+
+/**
+ * Expected cost of one call whose prompt is only known by its size
+ */
+export function estimateTokenCost(model: ModelId, inputTokens: number, outputTokens: number): number {
+  return priceTokens(model, inputTokens, outputTokens);
+}
+
+/**
+ * Expected output of the next call in a phase: the debate's own average so far, else the typical size
+ */
+export function expectedOutputTokens(phase: CostPhase, report?: DebateCostReport): number {
+  const totals = report?.byPhase[phase];
+  if (totals && totals.calls > 0) {
+    return Math.ceil(totals.outputTokens / totals.calls);
+  }
+
+  switch (phase) {
+    case 'clarification':
+      return AVG_TOKENS.userQuestion;
+    case 'advisor':
+      return AVG_TOKENS.advisorResponse;
+    case 'consensus':
+      return AVG_TOKENS.moderatorAnalysis;
+    case 'final_answer':
+      return AVG_TOKENS.finalAnswer;
+    case 'structured_answer':
+      return AVG_TOKENS.structuredAnswer;
+  }
+}
+
 /**
  * Estimate debate cost before it starts
+ * Without roleModels every advisor and the moderator are priced at `model`
+ * `rounds` overrides the mode's round count (adaptive ceiling, continued debates)
  */
 export function estimateDebateCost(
-  model: ClaudeModel,
+  model: ModelId,
   mode: DebateMode,
   advisorCount: number,
-  enableResearch: boolean
+  enableResearch: boolean,
+  historyTokens: number = 0,
+  roleModels?: RoleModels,
+  rounds: number = getModeRounds(mode)
 ): CostEstimate {
-  const rounds = mode === 'quick' ? 1 : mode === 'standard' ? 2 : 3;
-  const pricing = PRICING[model];
-
-  // Input tokens (what we send to API)
-  let inputTokens = AVG_TOKENS.userQuestion; // Initial question
+  const moderatorModel = roleModels?.moderator || model;
 
   // Each advisor gets context + their persona
   const advisorInputPerRound =
     AVG_TOKENS.userQuestion +                    // Question
     (enableResearch ? AVG_TOKENS.researchContext : 0) + // Research if enabled
+    historyTokens +                              // Earlier conversation turns
     100;                                         // Persona + instructions
 
   // Later rounds include other advisors' responses in context
   const contextGrowth = (advisorCount - 1) * AVG_TOKENS.advisorResponse;
 
+  let advisorInputTokens = 0;
   for (let round = 0; round < rounds; round++) {
     const contextSize = round === 0 ? 0 : contextGrowth;
-    inputTokens += advisorCount * (advisorInputPerRound + contextSize);
+    advisorInputTokens += advisorInputPerRound + contextSize;
   }
+  const advisorOutputTokens = rounds * AVG_TOKENS.advisorResponse;
 
-  // Moderator analysis (once)
-  inputTokens += advisorCount * AVG_TOKENS.advisorResponse + AVG_TOKENS.userQuestion;
+  // Price every advisor seat with its own model
+  let advisorCost = 0;
+  let advisorOutputCost = 0;
+  for (let i = 0; i < advisorCount; i++) {
+    const advisorModel = roleModels?.advisors[i] || model;
+    advisorCost += priceTokens(advisorModel, advisorInputTokens, advisorOutputTokens);
+    advisorOutputCost += priceTokens(advisorModel, 0, advisorOutputTokens);
+  }
 
-  // Final answer generation
-  inputTokens += advisorCount * AVG_TOKENS.advisorResponse + AVG_TOKENS.moderatorAnalysis;
+  // Moderator: initial question, consensus analysis (after every round in adaptive mode, else once),
+  // final answer generation and extracting the structured action plan from that answer
+  const consensusChecks = mode === 'adaptive' ? rounds : 1;
+  const moderatorInputTokens =
+    AVG_TOKENS.userQuestion +
+    consensusChecks * (advisorCount * AVG_TOKENS.advisorResponse + AVG_TOKENS.userQuestion + historyTokens) +
+    advisorCount * AVG_TOKENS.advisorResponse + AVG_TOKENS.moderatorAnalysis + historyTokens +
+    AVG_TOKENS.userQuestion + AVG_TOKENS.finalAnswer;
+  const moderatorOutputTokens = consensusChecks * AVG_TOKENS.moderatorAnalysis;
+  const finalAnswerTokens = AVG_TOKENS.finalAnswer + AVG_TOKENS.structuredAnswer;
+  const moderatorCost = priceTokens(moderatorModel, moderatorInputTokens, moderatorOutputTokens + finalAnswerTokens);
 
-  // Output tokens (what API generates)
-  const advisorOutputTokens = advisorCount * rounds * AVG_TOKENS.advisorResponse;
-  const moderatorOutputTokens = AVG_TOKENS.moderatorAnalysis;
-  const finalAnswerTokens = AVG_TOKENS.finalAnswer;
-  const outputTokens = advisorOutputTokens + moderatorOutputTokens + finalAnswerTokens;
-
-  // Calculate costs
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  const totalCost = inputCost + outputCost;
+  const inputTokens = advisorCount * advisorInputTokens + moderatorInputTokens;
+  const outputTokens = advisorCount * advisorOutputTokens + moderatorOutputTokens + finalAnswerTokens;
+  const totalCost = advisorCost + moderatorCost;
 
   return {
     estimatedInputTokens: Math.round(inputTokens),
     estimatedOutputTokens: Math.round(outputTokens),
     estimatedCost: Number(totalCost.toFixed(4)),
     breakdown: {
-      advisorResponses: Number(((advisorOutputTokens / 1_000_000) * pricing.output).toFixed(4)),
-      moderatorAnalysis: Number(((moderatorOutputTokens / 1_000_000) * pricing.output).toFixed(4)),
-      finalAnswer: Number(((finalAnswerTokens / 1_000_000) * pricing.output).toFixed(4)),
+      advisorResponses: Number(advisorOutputCost.toFixed(4)),
+      moderatorAnalysis: Number(priceTokens(moderatorModel, 0, moderatorOutputTokens).toFixed(4)),
+      finalAnswer: Number(priceTokens(moderatorModel, 0, finalAnswerTokens).toFixed(4)),
       research: enableResearch ? 0.01 : undefined, // Tavily API cost (approximate)
     },
     model,
     mode,
     advisorCount,
+    roleModels,
   };
 }
 
 /**
  * Calculate actual cost from Anthropic API usage
+ * Cache tokens are reported separately from inputTokens by the API
  */
 export function calculateActualCost(
-  model: ClaudeModel,
+  model: ModelId,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  cacheCreationTokens: number = 0,
+  cacheReadTokens: number = 0
 ): ActualCost {
-  const pricing = PRICING[model];
+  const pricing = getModel(model).pricing;
 
   const inputCost = (inputTokens / 1_000_000) * pricing.input;
+  const cacheWriteCost = (cacheCreationTokens / 1_000_000) * pricing.input * CACHE_WRITE_MULTIPLIER;
+  const cacheReadCost = (cacheReadTokens / 1_000_000) * pricing.input * CACHE_READ_MULTIPLIER;
   const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  const totalCost = inputCost + outputCost;
+  const totalCost = inputCost + cacheWriteCost + cacheReadCost + outputCost;
 
   return {
     inputTokens,
     outputTokens,
-    totalCost: Number(totalCost.toFixed(4)),
+    cacheCreationTokens,
+    cacheReadTokens,
+    totalCost: Number(totalCost.toFixed(6)),
     model,
     timestamp: Date.now(),
   };
 }
 
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, totalCost: 0, calls: 0 };
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage, cost: number): void {
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheCreationTokens += usage.cacheCreationTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.totalCost = Number((totals.totalCost + cost).toFixed(6));
+  totals.calls += 1;
+}
+
+/**
+ * Accumulates real token usage across every API call of a debate
+ */
+export class DebateCostTracker {
+  private total: UsageTotals = emptyTotals();
+  private byAdvisor: Record<string, UsageTotals> = {};
+  private byModel: Record<ModelId, UsageTotals> = {};
+  private byPhase: Partial<Record<CostPhase, UsageTotals>> = {};
+
+  /**
+   * `previous` seeds the totals when a paused debate is resumed
+   */
+  constructor(private model: ModelId, previous?: DebateCostReport) {
+    if (previous) {
+      this.total = { ...previous.total };
+      this.byAdvisor = Object.fromEntries(Object.entries(previous.byAdvisor).map(([k, v]) => [k, { ...v }]));
+      this.byModel = Object.fromEntries(Object.entries(previous.byModel).map(([k, v]) => [k, { ...v }]));
+      this.byPhase = Object.fromEntries(Object.entries(previous.byPhase).map(([k, v]) => [k, { ...v }]));
+    }
+  }
+
+  /**
+   * Record one API call and return the updated running totals
+   * `model` is the model that served the call (defaults to the debate's model)
+   */
+  record(usage: TokenUsage, phase: CostPhase, advisor?: string, model: ModelId = this.model): DebateCostReport {
+    const { totalCost } = calculateActualCost(
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheCreationTokens,
+      usage.cacheReadTokens
+    );
+
+    addToTotals(this.total, usage, totalCost);
+    addToTotals(this.byPhase[phase] ??= emptyTotals(), usage, totalCost);
+    addToTotals(this.byModel[model] ??= emptyTotals(), usage, totalCost);
+    if (advisor) {
+      addToTotals(this.byAdvisor[advisor] ??= emptyTotals(), usage, totalCost);
+    }
+
+    return this.getReport();
+  }
+
+  /**
+   * Snapshot of the totals so far (safe to serialize into events)
+   */
+  getReport(): DebateCostReport {
+    return {
+      model: this.model,
+      total: { ...this.total },
+      byAdvisor: Object.fromEntries(Object.entries(this.byAdvisor).map(([k, v]) => [k, { ...v }])),
+      byModel: Object.fromEntries(Object.entries(this.byModel).map(([k, v]) => [k, { ...v }])),
+      byPhase: Object.fromEntries(Object.entries(this.byPhase).map(([k, v]) => [k, { ...v }])),
+      timestamp: Date.now(),
+    };
+  }
+}
+
 /**
  * Format cost for display
  */
@@ -172,29 +360,20 @@ export function getCostWarningLevel(estimatedCost: number): 'low' | 'medium' | '
  * Get model comparison info
  */
 export function getModelComparison(): {
-  model: ClaudeModel;
+  model: ModelId;
   speed: string;
   quality: string;
   cost: string;
 }[] {
-  return [
-    {
-      model: 'claude-haiku-4',
-      speed: 'Fastest',
-      quality: 'Good',
-      cost: 'Cheapest ($0.01-0.05/debate)',
-    },
-    {
-      model: 'claude-sonnet-4-5',
-      speed: 'Balanced',
-      quality: 'Great',
-      cost: 'Moderate ($0.05-0.20/debate)',
-    },
-    {
-      model: 'claude-opus-4-5',
-      speed: 'Slower',
-      quality: 'Best',
-      cost: 'Premium ($0.20-1.00/debate)',
-    },
-  ];
+  return listModels().map((model) => {
+    const low = estimateDebateCost(model.id, 'quick', 3, false).estimatedCost;
+    const high = estimateDebateCost(model.id, 'deep', 5, true).estimatedCost;
+
+    return {
+      model: model.id,
+      speed: model.speed,
+      quality: model.quality,
+      cost: high === 0 ? 'Free (self-hosted)' : `${formatCost(low)}-${formatCost(high)}/debate`,
+    };
+  });
 }
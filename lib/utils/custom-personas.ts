@@ -0,0 +1,81 @@
+/**
+ * Custom Persona Storage
+ * Keeps user-defined advisors and moderator overrides in localStorage (they are sent along with each debate request)
+ */
+
+import type { CustomPersona, ModeratorOverride } from '@/lib/agents/persona-registry';
+import { CustomPersonaSchema, ModeratorOverrideSchema } from '@/lib/utils/security';
+
+const STORAGE_KEY = 'council_custom_personas';
+const MODERATOR_STORAGE_KEY = 'council_moderator_override';
+
+/**
+ * Save the custom advisors
+ */
+export function saveCustomPersonas(personas: CustomPersona[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(personas));
+  } catch (error) {
+    console.error('[CustomPersonas] Failed to save custom personas:', error);
+  }
+}
+
+/**
+ * Load the custom advisors, skipping entries that no longer validate
+ */
+export function loadCustomPersonas(): CustomPersona[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.flatMap((entry) => {
+      const result = CustomPersonaSchema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    });
+  } catch (error) {
+    console.error('[CustomPersonas] Failed to load custom personas:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the moderator overrides (null restores the built-in moderator)
+ */
+export function saveModeratorOverride(override: ModeratorOverride | null): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (override) {
+      localStorage.setItem(MODERATOR_STORAGE_KEY, JSON.stringify(override));
+    } else {
+      localStorage.removeItem(MODERATOR_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('[CustomPersonas] Failed to save moderator override:', error);
+  }
+}
+
+/**
+ * Load the moderator overrides, or null if unset or no longer valid
+ */
+export function loadModeratorOverride(): ModeratorOverride | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(MODERATOR_STORAGE_KEY);
+    if (!stored) return null;
+
+    const result = ModeratorOverrideSchema.safeParse(JSON.parse(stored));
+    return result.success ? result.data : null;
+  } catch (error) {
+    console.error('[CustomPersonas] Failed to load moderator override:', error);
+    return null;
+  }
+}
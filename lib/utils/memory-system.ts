@@ -3,6 +3,9 @@
  * Learns from user interactions and provides smart defaults
  */
 
+import { DEFAULT_MODEL_ID } from '../models/registry';
+import { ADVISOR_NAMES } from '../agents/personas';
+
 export interface UserMemory {
   preferences: {
     favoriteModel?: string;
@@ -105,11 +108,11 @@ export function getSmartDefaults(): {
 
   // Fall back to preferences
   return {
-    model: memory.preferences.favoriteModel || 'claude-sonnet-4-5',
+    model: memory.preferences.favoriteModel || DEFAULT_MODEL_ID,
     mode: memory.preferences.favoriteMode || 'standard',
     advisors: memory.preferences.preferredAdvisors.length > 0
       ? memory.preferences.preferredAdvisors
-      : ['naval', 'elon', 'larry', 'alex', 'pavel'],
+      : [...ADVISOR_NAMES],
     research: memory.preferences.researchDefault,
   };
 }
@@ -0,0 +1,62 @@
+/**
+ * Paused Debate Storage
+ * Keeps a paused debate's checkpoint in localStorage so it can be resumed after a page reload
+ */
+
+import type { DebateCheckpoint } from '@/lib/agents/types';
+import type { DebateConfig } from '@/lib/services/council-service';
+import type { Message } from '@/lib/stores/debate-store';
+
+const STORAGE_KEY = 'council_paused_debate';
+
+export interface PausedDebate {
+  config: DebateConfig; // Request the debate was started with (minus the checkpoint)
+  checkpoint: DebateCheckpoint;
+  messages: Message[]; // Conversation as shown when the debate paused
+  conversationTitle: string;
+  pausedAt: number;
+}
+
+/**
+ * Save the paused debate (only one can be paused at a time)
+ */
+export function savePausedDebate(paused: PausedDebate): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(paused));
+  } catch (error) {
+    console.error('[PausedDebate] Failed to save paused debate:', error);
+  }
+}
+
+/**
+ * Load the paused debate, if any
+ */
+export function loadPausedDebate(): PausedDebate | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const paused: PausedDebate = JSON.parse(stored);
+    return paused.checkpoint?.version === 1 ? paused : null;
+  } catch (error) {
+    console.error('[PausedDebate] Failed to load paused debate:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the paused debate (after resuming or discarding it)
+ */
+export function clearPausedDebate(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('[PausedDebate] Failed to clear paused debate:', error);
+  }
+}
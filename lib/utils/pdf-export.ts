@@ -4,7 +4,11 @@
  */
 
 import type { Message } from '@/lib/stores/debate-store';
-import { PERSONAS } from '@/lib/agents/personas';
+import { ADVISOR_NAMES } from '@/lib/agents/personas';
+import { lookupPersona } from '@/lib/agents/persona-registry';
+import { loadCustomPersonas } from '@/lib/utils/custom-personas';
+import { formatStepDetails } from '@/lib/utils/action-plan';
+import type { StructuredFinalAnswer } from '@/lib/agents/types';
 
 interface ExportOptions {
   title: string;
@@ -22,6 +26,7 @@ interface ExportOptions {
  */
 export function exportToPDF(options: ExportOptions): void {
   const { title, question, messages, timestamp, model, mode, advisors } = options;
+  const customPersonas = loadCustomPersonas();
 
   // Create a new window for printing
   const printWindow = window.open('', '_blank');
@@ -124,6 +129,17 @@ export function exportToPDF(options: ExportOptions): void {
             page-break-inside: avoid;
           }
 
+          .action-plan {
+            margin-top: 16px;
+            padding-top: 12px;
+            border-top: 1px solid #c8e6c9;
+          }
+
+          .action-plan ol, .action-plan ul {
+            margin: 8px 0 12px;
+            padding-left: 24px;
+          }
+
           .sources {
             background: #fff3e0;
             padding: 15px;
@@ -163,8 +179,8 @@ export function exportToPDF(options: ExportOptions): void {
           <div class="metadata-item"><strong>Model:</strong> ${model}</div>
           <div class="metadata-item"><strong>Mode:</strong> ${mode}</div>
           <div class="metadata-item"><strong>Advisors:</strong> ${advisors.map(a => {
-            const persona = PERSONAS[a as keyof typeof PERSONAS];
-            return persona?.name || a;
+            const persona = lookupPersona(a, customPersonas);
+            return escapeHtml(persona?.name || a);
           }).join(', ')}</div>
         </div>
 
@@ -211,6 +227,7 @@ function escapeHtml(text: string): string {
 }
 
 function generateDebateHTML(messages: Message[]): string {
+  const customPersonas = loadCustomPersonas();
   let html = '';
   let currentRound = 0;
 
@@ -219,12 +236,12 @@ function generateDebateHTML(messages: Message[]): string {
       currentRound++;
       html += `<div class="round-header">📍 ${escapeHtml(message.content)}</div>`;
     } else if (message.type === 'agent' && message.agent) {
-      const persona = PERSONAS[message.agent as keyof typeof PERSONAS];
+      const persona = lookupPersona(message.agent, customPersonas);
       html += `
         <div class="advisor-response">
           <div class="advisor-name">
-            <span>${persona?.avatar || '🤖'}</span>
-            <span style="color: ${persona?.color || '#666'}">${persona?.name || message.agent}</span>
+            <span>${escapeHtml(persona?.avatar || '🤖')}</span>
+            <span style="color: ${persona?.color || '#666'}">${escapeHtml(persona?.name || message.agent)}</span>
           </div>
           <div>${escapeHtml(message.content).replace(/\n/g, '<br>')}</div>
           ${message.sources && message.sources.length > 0 ? `
@@ -245,6 +262,7 @@ function generateDebateHTML(messages: Message[]): string {
         <div class="consensus">
           <h3>✅ Council Consensus</h3>
           <div>${escapeHtml(message.content).replace(/\n\n/g, '</p><p>').replace(/\n/g, '<br>')}</div>
+          ${message.structuredAnswer ? generateActionPlanHTML(message.structuredAnswer, message.completedSteps) : ''}
         </div>
       `;
     }
@@ -253,6 +271,36 @@ function generateDebateHTML(messages: Message[]): string {
   return html;
 }
 
+function generateActionPlanHTML(answer: StructuredFinalAnswer, completedSteps: number[] = []): string {
+  return `
+    <div class="action-plan">
+      <h3>Action Plan</h3>
+      <p><strong>Recommendation:</strong> ${escapeHtml(answer.recommendation)} <em>(${answer.confidence} confidence)</em></p>
+      ${answer.actionSteps.length > 0 ? `
+        <ol>
+          ${answer.actionSteps.map((step, i) => `
+            <li>${completedSteps.includes(i) ? '☑' : '☐'} ${escapeHtml(step.step + formatStepDetails(step))}</li>
+          `).join('')}
+        </ol>
+      ` : ''}
+      ${answer.risks.length > 0 ? `
+        <strong>Risks:</strong>
+        <ul>
+          ${answer.risks.map((risk) => `
+            <li>${escapeHtml(risk.risk)}${risk.mitigation ? ` — <em>Mitigation:</em> ${escapeHtml(risk.mitigation)}` : ''}</li>
+          `).join('')}
+        </ul>
+      ` : ''}
+      ${answer.openQuestions.length > 0 ? `
+        <strong>Open Questions:</strong>
+        <ul>
+          ${answer.openQuestions.map((question) => `<li>${escapeHtml(question)}</li>`).join('')}
+        </ul>
+      ` : ''}
+    </div>
+  `;
+}
+
 /**
  * Quick export with default settings
  */
@@ -267,6 +315,6 @@ export function quickExportToPDF(title: string, messages: Message[]): void {
     timestamp: Date.now(),
     model: 'Claude Sonnet 4.5',
     mode: 'Standard',
-    advisors: ['naval', 'elon', 'larry', 'alex', 'pavel'],
+    advisors: [...ADVISOR_NAMES],
   });
 }
@@ -0,0 +1,156 @@
+/**
+ * Persona Packs
+ * Versioned JSON bundles for moving custom advisors between machines and teammates
+ */
+
+import type { z } from 'zod';
+import {
+  createPersonaId,
+  isBuiltInPersona,
+  MAX_CUSTOM_PERSONAS,
+  PersonaRegistry,
+  type CustomPersona,
+  type ModeratorOverride,
+} from '@/lib/agents/persona-registry';
+import { PersonaPackSchema, PERSONA_PACK_FORMAT, PERSONA_PACK_VERSION } from '@/lib/utils/security';
+
+export type PersonaPack = z.infer<typeof PersonaPackSchema>;
+
+// What to do with an imported persona whose ID is already taken
+export type ConflictResolution =
+  | 'replace' // Overwrite the existing custom persona (built-ins can't be replaced, so those are renamed)
+  | 'rename' // Import under a fresh ID and keep both
+  | 'skip'; // Keep the existing persona and drop the imported one
+
+export interface PackConflict {
+  id: string;
+  name: string; // Name of the imported persona
+  existingName: string;
+  builtIn: boolean;
+}
+
+export interface PackImportResult {
+  personas: CustomPersona[]; // The full custom persona list after the import
+  defaultAdvisors?: string[]; // The pack's selection with renamed IDs applied (absent if unusable)
+  moderator?: ModeratorOverride;
+  added: number;
+  replaced: number;
+  renamed: number;
+  skipped: number;
+}
+
+/**
+ * Bundle custom advisors (and optionally a selection and moderator overrides) into a pack
+ */
+export function createPersonaPack(
+  personas: CustomPersona[],
+  options: { name?: string; defaultAdvisors?: string[]; moderator?: ModeratorOverride | null } = {}
+): PersonaPack {
+  // A default selection is only meaningful if every advisor in it travels with the pack
+  const packIds = new Set(personas.map((persona) => persona.id));
+  const defaultAdvisors = options.defaultAdvisors?.every((id) => isBuiltInPersona(id) || packIds.has(id))
+    ? options.defaultAdvisors
+    : undefined;
+
+  return PersonaPackSchema.parse({
+    format: PERSONA_PACK_FORMAT,
+    version: PERSONA_PACK_VERSION,
+    name: options.name,
+    exportedAt: new Date().toISOString(),
+    personas,
+    defaultAdvisors,
+    moderator: options.moderator && Object.keys(options.moderator).length > 0 ? options.moderator : undefined,
+  });
+}
+
+/**
+ * Parse and validate pack file contents (throws with a user-facing message)
+ */
+export function parsePersonaPack(json: string): PersonaPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null || (data as { format?: unknown }).format !== PERSONA_PACK_FORMAT) {
+    throw new Error('This file is not a persona pack');
+  }
+
+  const version = (data as { version?: unknown }).version;
+  if (typeof version === 'number' && version > PERSONA_PACK_VERSION) {
+    throw new Error(`This pack uses format version ${version}; this app reads up to version ${PERSONA_PACK_VERSION}`);
+  }
+
+  const result = PersonaPackSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.length ? ` (${issue.path.join('.')})` : '';
+    throw new Error(`Invalid persona pack: ${issue?.message || 'unknown error'}${path}`);
+  }
+  return result.data;
+}
+
+/**
+ * Imported personas whose IDs are already taken by a built-in or existing custom persona
+ */
+export function findPackConflicts(pack: PersonaPack, existing: CustomPersona[]): PackConflict[] {
+  const registry = new PersonaRegistry(existing);
+  return pack.personas.flatMap((persona) => {
+    const current = registry.get(persona.id);
+    return current
+      ? [{ id: persona.id, name: persona.name, existingName: current.name, builtIn: isBuiltInPersona(persona.id) }]
+      : [];
+  });
+}
+
+/**
+ * Merge a pack into the existing custom personas, resolving ID clashes one way for the whole pack
+ */
+export function mergePersonaPack(
+  pack: PersonaPack,
+  existing: CustomPersona[],
+  resolution: ConflictResolution
+): PackImportResult {
+  const personas = [...existing];
+  const renamedIds = new Map<string, string>();
+  const counts = { added: 0, replaced: 0, renamed: 0, skipped: 0 };
+
+  for (const persona of pack.personas) {
+    const index = personas.findIndex((p) => p.id === persona.id);
+    const clashes = index !== -1 || isBuiltInPersona(persona.id);
+
+    if (!clashes) {
+      personas.push(persona);
+      counts.added++;
+    } else if (resolution === 'skip') {
+      counts.skipped++;
+    } else if (resolution === 'replace' && index !== -1) {
+      personas[index] = persona;
+      counts.replaced++;
+    } else {
+      const id = createPersonaId(persona.name, personas.map((p) => p.id));
+      renamedIds.set(persona.id, id);
+      personas.push({ ...persona, id });
+      counts.renamed++;
+    }
+  }
+
+  if (personas.length > MAX_CUSTOM_PERSONAS) {
+    throw new Error(`Importing this pack would exceed the limit of ${MAX_CUSTOM_PERSONAS} custom advisors`);
+  }
+
+  // Point the default selection at the IDs the personas ended up with
+  const registry = new PersonaRegistry(personas);
+  const defaultAdvisors = pack.defaultAdvisors
+    ?.map((id) => renamedIds.get(id) ?? id)
+    .filter((id, i, ids) => registry.isAdvisor(id) && ids.indexOf(id) === i);
+
+  return {
+    personas,
+    defaultAdvisors: defaultAdvisors && defaultAdvisors.length >= 2 ? defaultAdvisors : undefined,
+    moderator: pack.moderator,
+    ...counts,
+  };
+}
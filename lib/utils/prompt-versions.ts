@@ -0,0 +1,88 @@
+/**
+ * Persona Prompt Versions
+ * Saved system prompt snapshots per persona, so prompt tuning in the editor can be compared and rolled back
+ */
+
+const STORAGE_KEY = 'council_prompt_versions';
+
+// Snapshots kept per persona (the oldest are dropped first)
+const MAX_VERSIONS_PER_PERSONA = 20;
+
+export interface PromptVersion {
+  id: string;
+  label: string;
+  systemPrompt: string;
+  createdAt: number;
+}
+
+type VersionStore = Record<string, PromptVersion[]>; // persona ID -> versions, newest first
+
+function readStore(): VersionStore {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return {};
+
+  const parsed = JSON.parse(stored);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+}
+
+/**
+ * Load a persona's saved prompt versions, newest first
+ */
+export function loadPromptVersions(personaId: string): PromptVersion[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const versions = readStore()[personaId];
+    return Array.isArray(versions) ? versions : [];
+  } catch (error) {
+    console.error('[PromptVersions] Failed to load prompt versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a snapshot of a persona's prompt; returns the persona's updated version list
+ */
+export function savePromptVersion(personaId: string, systemPrompt: string, label?: string): PromptVersion[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const store = readStore();
+    const existing = Array.isArray(store[personaId]) ? store[personaId] : [];
+    const version: PromptVersion = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      label: label?.trim() || `Version ${existing.length + 1}`,
+      systemPrompt,
+      createdAt: Date.now(),
+    };
+
+    store[personaId] = [version, ...existing].slice(0, MAX_VERSIONS_PER_PERSONA);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    return store[personaId];
+  } catch (error) {
+    console.error('[PromptVersions] Failed to save prompt version:', error);
+    return loadPromptVersions(personaId);
+  }
+}
+
+/**
+ * Delete one saved version; returns the persona's remaining versions
+ */
+export function deletePromptVersion(personaId: string, versionId: string): PromptVersion[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const store = readStore();
+    const remaining = (store[personaId] || []).filter((version) => version.id !== versionId);
+    if (remaining.length > 0) {
+      store[personaId] = remaining;
+    } else {
+      delete store[personaId];
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    return remaining;
+  } catch (error) {
+    console.error('[PromptVersions] Failed to delete prompt version:', error);
+    return loadPromptVersions(personaId);
+  }
+}
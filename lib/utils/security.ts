@@ -4,6 +4,10 @@
  */
 
 import { z } from 'zod';
+import { isKnownModel } from '../models/registry';
+import { PersonaRegistry, PERSONA_ID_PATTERN, MAX_CUSTOM_PERSONAS, isBuiltInPersona } from '../agents/persona-registry';
+import { SYNTHESIS_STYLE_IDS } from '../agents/synthesis';
+import { FinalAnswerResponseSchema } from '../agents/final-answer';
 
 // ============================================================================
 // ERROR HANDLING - Prevent information disclosure
@@ -72,15 +76,79 @@ export function logSecurityEvent(event: {
  */
 export const AdvisorNameSchema = z.enum(['naval', 'elon', 'larry', 'alex', 'pavel']);
 
+/**
+ * Advisor ID: a built-in name or a custom persona slug (requests check it is registered)
+ */
+export const AdvisorIdSchema = z.string().regex(PERSONA_ID_PATTERN, 'Invalid advisor ID');
+
+/**
+ * User-defined advisor persona
+ */
+export const CustomPersonaSchema = z.object({
+  id: AdvisorIdSchema.refine((id) => !isBuiltInPersona(id), 'ID is already used by a built-in persona'),
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  role: z.string().trim().min(1, 'Role is required').max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #2E7D32'),
+  avatar: z.string().trim().min(1).max(16), // Usually a single emoji
+  systemPrompt: z.string().trim()
+    .min(20, 'System prompt is too short')
+    .max(8000, 'System prompt is too long (max 8000 characters)'),
+});
+
+/**
+ * Overrides for the built-in moderator (any subset of the persona fields)
+ */
+export const ModeratorOverrideSchema = CustomPersonaSchema.omit({ id: true }).partial();
+
+// Persona pack file format (bump the version when the shape changes incompatibly)
+export const PERSONA_PACK_FORMAT = 'council-persona-pack';
+export const PERSONA_PACK_VERSION = 1;
+
+/**
+ * Persona pack: a shareable bundle of custom advisors, default selections and moderator overrides
+ * Pack IDs may clash with existing personas; importing resolves that (see lib/utils/persona-pack.ts)
+ */
+export const PersonaPackSchema = z.object({
+  format: z.literal(PERSONA_PACK_FORMAT),
+  version: z.literal(PERSONA_PACK_VERSION),
+  name: z.string().trim().max(100).optional(),
+  exportedAt: z.string().max(50).optional(),
+  personas: z.array(CustomPersonaSchema.extend({ id: AdvisorIdSchema }))
+    .min(1, 'A persona pack needs at least one persona')
+    .max(MAX_CUSTOM_PERSONAS, `Maximum ${MAX_CUSTOM_PERSONAS} personas per pack`),
+  defaultAdvisors: z.array(AdvisorIdSchema).min(2).max(5).optional(),
+  moderator: ModeratorOverrideSchema.optional(),
+}).superRefine((data, ctx) => {
+  const ids = data.personas.map((persona) => persona.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    ctx.addIssue({ code: 'custom', path: ['personas'], message: `Duplicate persona ID: ${duplicate}` });
+  }
+
+  // Default selections may name built-ins or personas from the same pack
+  data.defaultAdvisors?.forEach((id, i) => {
+    if (id === 'moderator' || (!isBuiltInPersona(id) && !ids.includes(id))) {
+      ctx.addIssue({ code: 'custom', path: ['defaultAdvisors', i], message: `Unknown advisor: ${id}` });
+    }
+  });
+});
+
 /**
  * Debate mode validation
  */
-export const DebateModeSchema = z.enum(['quick', 'standard', 'deep']);
+export const DebateModeSchema = z.enum(['quick', 'standard', 'deep', 'adaptive']);
+
+/**
+ * Final answer style validation
+ */
+export const SynthesisStyleSchema = z.enum(SYNTHESIS_STYLE_IDS);
 
 /**
- * Claude model validation
+ * Model validation (any model in the registry)
  */
-export const ClaudeModelSchema = z.enum(['claude-opus-4-5', 'claude-sonnet-4-5', 'claude-haiku-4']);
+export const ModelIdSchema = z.string()
+  .max(100)
+  .refine(isKnownModel, 'Unknown model');
 
 /**
  * Message type validation
@@ -108,6 +176,79 @@ export const MessageSchema = z.object({
   sources: z.array(ResearchSourceSchema).max(10).optional(),
   isStreaming: z.boolean().optional(),
   rating: z.number().min(-1).max(1).optional(),
+  structuredAnswer: FinalAnswerResponseSchema.optional(), // Action plan on final answers
+  completedSteps: z.array(z.number().int().min(0)).max(50).optional(),
+});
+
+/**
+ * Rounds of advisor responses sent back for continue/regenerate
+ * Debates can be continued indefinitely, so the client sends only the most recent rounds
+ */
+export const MAX_PREVIOUS_ROUNDS = 20;
+
+/**
+ * Previous debate payload for continue/regenerate requests
+ */
+export const PreviousDebateSchema = z.object({
+  agentResponses: z.record(
+    z.string().max(50),
+    z.array(z.string().max(10000)).max(MAX_PREVIOUS_ROUNDS)
+  ),
+  finalAnswer: z.string().max(50000).optional(),
+  researchResults: z.array(ResearchSourceSchema).max(10).optional(),
+});
+
+/**
+ * Token and cost totals inside a cost report
+ */
+const UsageTotalsSchema = z.object({
+  inputTokens: z.number().min(0),
+  outputTokens: z.number().min(0),
+  cacheCreationTokens: z.number().min(0),
+  cacheReadTokens: z.number().min(0),
+  totalCost: z.number().min(0),
+  calls: z.number().int().min(0),
+});
+
+/**
+ * Checkpoint of a paused debate sent back to resume it
+ */
+export const DebateCheckpointSchema = z.object({
+  version: z.literal(1),
+  question: z.string().min(1).max(5000),
+  currentRound: z.number().int().min(0).max(20),
+  maxRounds: z.number().int().min(1).max(20),
+  agentResponses: z.record(
+    z.string().max(50),
+    z.array(z.string().max(10000)).max(20)
+  ),
+  completedTurns: z.array(AdvisorIdSchema).max(5),
+  agreementHistory: z.array(z.number().min(0).max(1)).max(20),
+  researchResults: z.array(ResearchSourceSchema).max(10).optional(),
+  conversationHistory: z.string().max(100000).optional(),
+  interruptions: z.array(z.object({
+    id: z.string().max(100),
+    content: z.string().max(2000),
+    timestamp: z.number().min(0),
+    round: z.number().int().min(0).optional(),
+  })).max(50).optional(),
+  cost: z.object({
+    model: z.string().max(100),
+    total: UsageTotalsSchema,
+    byAdvisor: z.record(z.string().max(50), UsageTotalsSchema),
+    byModel: z.record(z.string().max(100), UsageTotalsSchema),
+    byPhase: z.record(z.string().max(50), UsageTotalsSchema),
+    timestamp: z.number().min(0),
+  }).optional(),
+  createdAt: z.number().min(0),
+});
+
+/**
+ * Per-role model overrides for mixed-model councils
+ */
+export const ModelAssignmentsSchema = z.object({
+  moderator: ModelIdSchema.optional(),
+  advisors: z.record(AdvisorIdSchema, ModelIdSchema).optional(),
 });
 
 /**
@@ -120,19 +261,58 @@ export const CouncilDebateRequestSchema = z.object({
   conversationHistory: z.string()
     .max(100000, 'Conversation history is too large'),
   mode: DebateModeSchema,
-  advisors: z.array(AdvisorNameSchema)
+  agreementThreshold: z.number().min(0.5).max(1).optional(),
+  maxRounds: z.number().int().min(1).max(6).optional(),
+  parallelFirstRound: z.boolean().optional(),
+  synthesisStyle: SynthesisStyleSchema.optional(),
+  consensusQuorum: z.number().int().min(2).max(5).optional(),
+  countPartialAgreement: z.boolean().optional(),
+  advisors: z.array(AdvisorIdSchema)
     .min(2, 'Select at least 2 advisors')
     .max(5, 'Maximum 5 advisors allowed'),
-  model: ClaudeModelSchema,
+  customPersonas: z.array(CustomPersonaSchema)
+    .max(MAX_CUSTOM_PERSONAS, `Maximum ${MAX_CUSTOM_PERSONAS} custom advisors allowed`)
+    .optional(),
+  moderatorOverride: ModeratorOverrideSchema.optional(),
+  model: ModelIdSchema,
+  modelAssignments: ModelAssignmentsSchema.optional(),
+  fallbackModel: ModelIdSchema.optional(),
+  maxCostUsd: z.number().positive().max(100).optional(),
+  localModelName: z.string()
+    .max(200)
+    .regex(/^[\w.:\/-]+$/, 'Invalid model name')
+    .optional(),
   enableResearch: z.boolean(),
   continueDebate: z.boolean().optional(),
   regenerate: z.boolean().optional(),
+  previousDebate: PreviousDebateSchema.optional(),
+  resumeFrom: DebateCheckpointSchema.optional(),
   anthropicKey: z.string()
     .regex(/^sk-ant-/, 'Invalid Anthropic API key format')
     .optional(),
   tavilyKey: z.string()
     .regex(/^tvly-/, 'Invalid Tavily API key format')
     .optional(),
+}).superRefine((data, ctx) => {
+  // Advisors must be built-ins or custom personas sent with this request
+  const customIds = (data.customPersonas || []).map((persona) => persona.id);
+  const duplicate = customIds.find((id, i) => customIds.indexOf(id) !== i);
+  if (duplicate) {
+    ctx.addIssue({ code: 'custom', path: ['customPersonas'], message: `Duplicate custom advisor ID: ${duplicate}` });
+  }
+
+  const registry = new PersonaRegistry(data.customPersonas);
+  data.advisors.forEach((id, i) => {
+    if (!registry.isAdvisor(id)) {
+      ctx.addIssue({ code: 'custom', path: ['advisors', i], message: `Unknown advisor: ${id}` });
+    }
+  });
+  if (new Set(data.advisors).size !== data.advisors.length) {
+    ctx.addIssue({ code: 'custom', path: ['advisors'], message: 'Each advisor can only be selected once' });
+  }
+  if (data.consensusQuorum !== undefined && data.consensusQuorum > data.advisors.length) {
+    ctx.addIssue({ code: 'custom', path: ['consensusQuorum'], message: 'Consensus quorum cannot exceed the number of advisors' });
+  }
 });
 
 /**
@@ -166,6 +346,7 @@ export const ApiKeyValidationSchema = z.object({
  * Interrupt request validation schema
  */
 export const InterruptRequestSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'), // Returned when the debate stream starts
   interruption: z.string()
     .min(1, 'Interruption message cannot be empty')
     .max(2000, 'Interruption message is too long'),
@@ -174,7 +355,34 @@ export const InterruptRequestSchema = z.object({
     type: z.string(),
     content: z.string().max(10000),
     timestamp: z.number(),
-  })).max(50), // Limit context size
+  })).max(50).optional(), // Limit context size
+});
+
+/**
+ * Session-scoped request validation schema (pause, reconnect, cancel)
+ */
+export const SessionRequestSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  lastEventId: z.coerce.number().int().min(0).optional(), // Last-Event-ID when reconnecting
+});
+
+/**
+ * Persona test-drive validation schema: one draft persona answers one sample question
+ */
+export const PersonaTestRequestSchema = z.object({
+  persona: CustomPersonaSchema.omit({ id: true }),
+  question: z.string()
+    .trim()
+    .min(1, 'Question cannot be empty')
+    .max(5000, 'Question is too long (max 5000 characters)'),
+  model: ModelIdSchema,
+  localModelName: z.string()
+    .max(200)
+    .regex(/^[\w.:\/-]+$/, 'Invalid model name')
+    .optional(),
+  anthropicKey: z.string()
+    .regex(/^sk-ant-/, 'Invalid Anthropic API key format')
+    .optional(),
 });
 
 // ============================================================================
@@ -4,6 +4,7 @@
  */
 
 import { ShareableConversationSchema } from './security';
+import { formatActionPlanMarkdown } from './action-plan';
 import { z } from 'zod';
 
 // Type inferred from Zod schema for type safety
@@ -160,6 +161,9 @@ export function exportAsMarkdown(conversation: ShareableConversation): string {
       markdown += `### Moderator\n\n${msg.content}\n\n`;
     } else if (msg.type === 'final') {
       markdown += `## Final Answer\n\n${msg.content}\n\n`;
+      if (msg.structuredAnswer) {
+        markdown += formatActionPlanMarkdown(msg.structuredAnswer, msg.completedSteps);
+      }
     }
   });
 
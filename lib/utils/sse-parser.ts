@@ -0,0 +1,144 @@
+/**
+ * Server-Sent Events Parser
+ * Incremental parser following the WHATWG event stream format
+ * Buffers partial lines across network chunks and supports data (multi-line), event, id and retry fields
+ */
+
+export interface SseMessage {
+  event: string; // `event:` field, 'message' when absent
+  data: string; // `data:` lines joined with newlines
+  id: string; // Last event ID seen on the stream (persists across messages, as in EventSource)
+}
+
+/**
+ * The connection itself failed or was cut off mid-message (worth reconnecting)
+ */
+export class SseStreamError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SseStreamError';
+  }
+}
+
+export class SseParser {
+  private buffer = '';
+  private started = false;
+  private data = '';
+  private eventType = '';
+  private hasData = false;
+  lastEventId = '';
+  retry: number | null = null; // Reconnection delay requested by the server (ms)
+
+  constructor(
+    private onMessage: (message: SseMessage) => void,
+    private onComment?: (comment: string) => void
+  ) {}
+
+  /**
+   * Feed decoded text; complete lines are processed, a trailing partial line is kept
+   */
+  feed(chunk: string): void {
+    if (!this.started) {
+      this.started = true;
+      if (chunk.startsWith('\uFEFF')) chunk = chunk.slice(1);
+    }
+
+    this.buffer += chunk;
+
+    let position = 0;
+    while (position < this.buffer.length) {
+      const lf = this.buffer.indexOf('\n', position);
+      const cr = this.buffer.indexOf('\r', position);
+      if (lf === -1 && cr === -1) break;
+
+      let end: number;
+      let next: number;
+      if (cr !== -1 && (lf === -1 || cr < lf)) {
+        // A CR at the very end may be the first half of a CRLF split across chunks
+        if (cr === this.buffer.length - 1) break;
+        end = cr;
+        next = this.buffer[cr + 1] === '\n' ? cr + 2 : cr + 1;
+      } else {
+        end = lf;
+        next = lf + 1;
+      }
+
+      this.processLine(this.buffer.slice(position, end));
+      position = next;
+    }
+
+    this.buffer = this.buffer.slice(position);
+  }
+
+  /**
+   * Finish the stream; returns false if it ended in the middle of a message
+   * (per the spec an unterminated message is discarded, never dispatched)
+   */
+  end(): boolean {
+    // A final CR can only be a line ending - nothing else is coming to pair it with
+    if (this.buffer.endsWith('\r')) {
+      this.processLine(this.buffer.slice(0, -1));
+      this.buffer = '';
+    }
+
+    const complete = this.buffer.length === 0 && !this.hasData && !this.eventType;
+    this.buffer = '';
+    this.resetMessage();
+    return complete;
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.onComment?.(line.slice(1).trimStart());
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.data += `${value}\n`;
+        this.hasData = true;
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      // Unknown fields are ignored
+    }
+  }
+
+  private dispatch(): void {
+    if (!this.hasData) {
+      this.resetMessage();
+      return;
+    }
+
+    const message: SseMessage = {
+      event: this.eventType || 'message',
+      data: this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data,
+      id: this.lastEventId,
+    };
+    this.resetMessage();
+    this.onMessage(message);
+  }
+
+  private resetMessage(): void {
+    this.data = '';
+    this.eventType = '';
+    this.hasData = false;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Stall Detection for Adaptive Debates
+ * Decides when further rounds stop adding value: advisors repeating themselves or agreement not moving
+ */
+
+// Adaptive mode ends once the moderator's agreement level reaches this (0-1)
+export const DEFAULT_AGREEMENT_THRESHOLD = 0.75;
+
+// Latest response this similar to the previous one counts as a repeated position (0-1)
+const REPEAT_SIMILARITY = 0.6;
+
+// Agreement must improve by at least this much per round to be considered progress (0-1)
+const MIN_AGREEMENT_GAIN = 0.05;
+
+export interface StallReport {
+  stalled: boolean;
+  reason?: 'repeating_positions' | 'agreement_flat';
+  similarity: number; // Average similarity of each advisor's latest response to their previous one
+  agreementGain?: number; // Change in agreement level since the previous check
+}
+
+/**
+ * Lowercased content words of a response (short words carry little position signal)
+ */
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter((word) => word.length > 3)
+  );
+}
+
+/**
+ * Jaccard similarity of two responses' content words (1 = same words)
+ */
+export function responseSimilarity(a: string, b: string): number {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Check whether the latest round moved the debate forward
+ * Needs at least two rounds of responses; agreement history is oldest first
+ */
+export function detectStall(
+  agentResponses: Record<string, string[]>,
+  agreementHistory: number[]
+): StallReport {
+  const similarities = Object.values(agentResponses)
+    .filter((responses) => responses.length >= 2)
+    .map((responses) => responseSimilarity(responses[responses.length - 1], responses[responses.length - 2]));
+
+  const similarity = similarities.length > 0
+    ? similarities.reduce((sum, value) => sum + value, 0) / similarities.length
+    : 0;
+
+  const agreementGain = agreementHistory.length >= 2
+    ? agreementHistory[agreementHistory.length - 1] - agreementHistory[agreementHistory.length - 2]
+    : undefined;
+
+  if (similarities.length > 0 && similarity >= REPEAT_SIMILARITY) {
+    return { stalled: true, reason: 'repeating_positions', similarity, agreementGain };
+  }
+  if (agreementGain !== undefined && agreementGain < MIN_AGREEMENT_GAIN) {
+    return { stalled: true, reason: 'agreement_flat', similarity, agreementGain };
+  }
+
+  return { stalled: false, similarity, agreementGain };
+}